@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { StructuredTranscript } from '../transcript_providers/base-provider';
+import { getStructuredTranscriptPath } from '../transcript_providers/structured-transcript';
+import { AnalysisInput, AnalysisInputMode } from './base-analysis';
+import { AnalysisPrompt } from './prompt-registry';
+
+export const ANALYSIS_INPUT_MODES: AnalysisInputMode[] = ['audio', 'transcript'];
+
+/**
+ * Build the input for analysing a recording. In transcript mode the text comes
+ * from loadTranscriptText(). Returns null when no usable transcript exists.
+ */
+export async function loadAnalysisInput(audioPath: string, mode: AnalysisInputMode, prompt: AnalysisPrompt): Promise<AnalysisInput | null> {
+  if (mode === 'audio') {
+    return { mode, audioPath, prompt };
+  }
+
+  const transcript = await loadTranscriptText(audioPath);
+  if (!transcript) {
+    return null;
+  }
+  return { mode, audioPath, transcriptPath: transcript.path, transcriptText: transcript.text, prompt };
+}
+
+/**
+ * Transcript of a recording, read from `<name>.transcript.json` when present
+ * (rendered with timestamps and speakers), falling back to `<name>.txt`.
+ * Returns null when there is no usable transcript.
+ */
+export async function loadTranscriptText(audioPath: string): Promise<{ path: string; text: string } | null> {
+  const txtPath = path.join(path.dirname(audioPath), path.basename(audioPath, path.extname(audioPath)) + '.txt');
+  const jsonPath = getStructuredTranscriptPath(txtPath);
+
+  try {
+    const transcript = JSON.parse(await fs.readFile(jsonPath, 'utf8')) as StructuredTranscript;
+    const text = renderStructuredTranscript(transcript);
+    if (isUsableTranscript(text)) {
+      return { path: jsonPath, text };
+    }
+  } catch {
+    // No structured transcript; try the plain text one
+  }
+
+  try {
+    const text = (await fs.readFile(txtPath, 'utf8')).trim();
+    if (isUsableTranscript(text)) {
+      return { path: txtPath, text };
+    }
+  } catch {
+    // No transcript at all
+  }
+
+  return null;
+}
+
+/**
+ * One line per segment: `[mm:ss] Speaker: text`. Timestamps and speakers are
+ * left out when the provider did not return them.
+ */
+export function renderStructuredTranscript(transcript: StructuredTranscript): string {
+  if (!Array.isArray(transcript.segments) || transcript.segments.length === 0) {
+    return (transcript.text || '').trim();
+  }
+  return transcript.segments
+    .map(seg => {
+      const time = seg.start !== null ? `[${formatTimestamp(seg.start)}] ` : '';
+      const speaker = seg.speaker ? `${seg.speaker}: ` : '';
+      return `${time}${speaker}${seg.text.trim()}`;
+    })
+    .filter(line => line.trim().length > 0)
+    .join('\n');
+}
+
+function isUsableTranscript(text: string): boolean {
+  return text.length > 0 && text !== '[No speech detected]' && !/^\[Transcription failed:/.test(text);
+}
+
+function formatTimestamp(totalSeconds: number): string {
+  const sec = Math.max(0, Math.floor(totalSeconds));
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(sec / 60))}:${pad(sec % 60)}`;
+}
@@ -0,0 +1,175 @@
+import { Taxonomy } from './analysis-taxonomy';
+
+/**
+ * Fixed values of the analysis JSON. Call tags, concerns and todos come from
+ * the taxonomy (`taxonomy.json`) instead.
+ */
+export const ANALYSIS_SCHEMA = {
+  gender: ['male', 'female', 'unknown'],
+  sentiment: ['positive', 'neutral', 'negative'],
+  paymentIntent: ['not_discussed', 'asked_price_only', 'hesitant', 'likely_to_buy', 'purchased'],
+  speaker: ['user', 'agent'],
+  urgencyLevel: ['high', 'medium', 'low']
+};
+
+export interface AnalysisValidation {
+  valid: boolean;
+  attempts: number; // Model calls made, including re-asks
+  errors: string[]; // Problems left in the final response
+  dropped: string[]; // Off-taxonomy entries removed from the saved analysis
+}
+
+export interface ValidationOutcome {
+  valid: boolean;
+  errors: string[];
+  dropped: string[];
+  data: Record<string, any>; // Copy with off-taxonomy entries and invalid fields removed
+}
+
+/**
+ * Extract the JSON object from a model response. Handles code fences and
+ * leading/trailing prose. Returns null when no object can be parsed.
+ */
+export function parseAnalysisJson(responseText: string): Record<string, any> | null {
+  const candidates = [responseText.trim()];
+  const fenced = responseText.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) candidates.push(fenced[1].trim());
+  const first = responseText.indexOf('{');
+  const last = responseText.lastIndexOf('}');
+  if (first >= 0 && last > first) candidates.push(responseText.slice(first, last + 1));
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Check an analysis against the schema. Tags, concerns and todos must be
+ * taxonomy values, whichever prompt offered them.
+ */
+export function validateAnalysis(input: Record<string, any>, taxonomy: Taxonomy): ValidationOutcome {
+  const data: Record<string, any> = JSON.parse(JSON.stringify(input));
+  const errors: string[] = [];
+  const dropped: string[] = [];
+  const callTags = taxonomy.values('call_tags');
+  const concerns = taxonomy.values('concerns');
+  const todo = taxonomy.values('todo');
+
+  const checkEnum = (obj: Record<string, any>, key: string, allowed: string[], label: string, required: boolean) => {
+    if (obj[key] === undefined || obj[key] === null) {
+      if (required) errors.push(`${label} is missing`);
+      return;
+    }
+    if (!allowed.includes(obj[key])) {
+      errors.push(`${label} "${obj[key]}" is not one of: ${allowed.join(', ')}`);
+      delete obj[key];
+    }
+  };
+
+  const checkScore = (obj: Record<string, any>, key: string, label: string, required: boolean) => {
+    if (obj[key] === undefined || obj[key] === null) {
+      if (required) errors.push(`${label} is missing`);
+      return;
+    }
+    if (typeof obj[key] !== 'number' || obj[key] < 0 || obj[key] > 1) {
+      errors.push(`${label} must be a number between 0 and 1 (got ${JSON.stringify(obj[key])})`);
+      delete obj[key];
+    }
+  };
+
+  const checkArray = (key: string): any[] => {
+    if (data[key] === undefined) {
+      errors.push(`${key} is missing (use [] when nothing applies)`);
+      data[key] = [];
+    } else if (!Array.isArray(data[key])) {
+      errors.push(`${key} must be an array`);
+      data[key] = [];
+    }
+    return data[key];
+  };
+
+  checkEnum(data, 'gender', ANALYSIS_SCHEMA.gender, 'gender', false);
+  checkEnum(data, 'sentiment', ANALYSIS_SCHEMA.sentiment, 'sentiment', true);
+  checkScore(data, 'confidence', 'confidence', true);
+  checkEnum(data, 'payment_intent', ANALYSIS_SCHEMA.paymentIntent, 'payment_intent', true);
+
+  if (typeof data.next_best_action !== 'string' || data.next_best_action.trim() === '') {
+    errors.push('next_best_action must be a non-empty string');
+    delete data.next_best_action;
+  }
+
+  data.call_tags = checkArray('call_tags').filter((item: any, i: number) => {
+    const label = `call_tags[${i}]`;
+    if (!item || typeof item !== 'object' || !callTags.includes(item.tag)) {
+      errors.push(`${label}.tag "${item?.tag}" is not one of: ${callTags.join(', ')}`);
+      dropped.push(`call_tags: ${item?.tag}`);
+      return false;
+    }
+    checkEnum(item, 'speaker', ANALYSIS_SCHEMA.speaker, `${label}.speaker`, true);
+    if (typeof item.quote !== 'string') errors.push(`${label}.quote must be a string`);
+    checkScore(item, 'quality_score', `${label}.quality_score`, false);
+    return true;
+  });
+
+  data.concerns = checkArray('concerns').filter((item: any, i: number) => {
+    const label = `concerns[${i}]`;
+    if (!item || typeof item !== 'object' || !concerns.includes(item.concern)) {
+      errors.push(`${label}.concern "${item?.concern}" is not one of: ${concerns.join(', ')}`);
+      dropped.push(`concerns: ${item?.concern}`);
+      return false;
+    }
+    if (typeof item.quote !== 'string') errors.push(`${label}.quote must be a string`);
+    checkScore(item, 'quality_score', `${label}.quality_score`, false);
+    return true;
+  });
+
+  data.todo = checkArray('todo').filter((item: any, i: number) => {
+    if (!todo.includes(item)) {
+      errors.push(`todo[${i}] "${item}" is not one of: ${todo.join(', ')}`);
+      dropped.push(`todo: ${item}`);
+      return false;
+    }
+    return true;
+  });
+
+  const insights = data.advanced_insights;
+  if (insights !== undefined) {
+    if (!insights || typeof insights !== 'object' || Array.isArray(insights)) {
+      errors.push('advanced_insights must be an object');
+      delete data.advanced_insights;
+    } else {
+      checkScore(insights, 'conversion_probability', 'advanced_insights.conversion_probability', false);
+      checkEnum(insights, 'urgency_level', ANALYSIS_SCHEMA.urgencyLevel, 'advanced_insights.urgency_level', false);
+      if (insights.agent_feedback && typeof insights.agent_feedback === 'object') {
+        checkScore(insights.agent_feedback, 'rapport_score', 'advanced_insights.agent_feedback.rapport_score', false);
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors, dropped, data };
+}
+
+/**
+ * Follow-up instruction sent when re-asking the model to fix its response.
+ * Chat providers send the previous response as an assistant turn and leave
+ * `previousResponse` out; providers without turns quote it here.
+ */
+export function buildRepairMessage(errors: string[], previousResponse?: string): string {
+  return [
+    '### Fix Your Previous Response',
+    '',
+    'Your previous response did not match the required JSON schema:',
+    ...errors.map(e => `- ${e}`),
+    '',
+    ...(previousResponse !== undefined ? ['Previous response:', '```', previousResponse.trim(), '```', ''] : []),
+    'Return the corrected analysis as a single JSON object only. Use only the allowed values listed in the schema.'
+  ].join('\n');
+}
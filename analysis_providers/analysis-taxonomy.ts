@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export type TaxonomyField = 'call_tags' | 'concerns' | 'todo';
+
+export const TAXONOMY_FIELDS: TaxonomyField[] = ['call_tags', 'concerns', 'todo'];
+
+export interface TaxonomyEntry {
+  id: string; // Value the model returns, e.g. 'deactivation'
+  description?: string; // Guidance rendered into prompts
+  details?: string[]; // Sub-bullets under the description
+  prompts?: string[]; // Only offered by these prompts (by name). Default: every prompt
+  group?: string; // Analyses with this tag are collected in <group>_calls.json instead of by call type
+}
+
+export type TaxonomyFile = Record<TaxonomyField, TaxonomyEntry[]>;
+
+/**
+ * The call tags, concerns and todos analyses may use, read from one JSON
+ * file (the bundled `analysis_providers/taxonomy.json` unless --taxonomy says
+ * otherwise). Prompts reference it through placeholders, validation accepts
+ * exactly its values, and summary.csv gets a column per tag.
+ *
+ * Placeholders, for each field (`call_tags`, `concerns`, `todo`):
+ * - `{{<field>}}`: values joined with ` | `, for the JSON schema
+ * - `{{<field>_list}}`: values as `` `a` · `b` ``
+ * - `{{<field>_guidance}}`: one bullet per value with its description and details
+ */
+export class Taxonomy {
+  readonly source: string;
+  readonly hash: string;
+  private file: TaxonomyFile;
+
+  private constructor(source: string, content: string, file: TaxonomyFile) {
+    this.source = source;
+    this.hash = `sha256:${createHash('sha256').update(content).digest('hex')}`;
+    this.file = file;
+  }
+
+  static async load(taxonomyPath: string): Promise<Taxonomy> {
+    let content: string;
+    let file: TaxonomyFile;
+    try {
+      content = await fs.readFile(taxonomyPath, 'utf8');
+      file = JSON.parse(content);
+    } catch (error: unknown) {
+      throw new Error(`Could not read taxonomy ${taxonomyPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    for (const field of TAXONOMY_FIELDS) {
+      const entries = file?.[field];
+      if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error(`Taxonomy ${taxonomyPath} needs a non-empty "${field}" list`);
+      }
+      const seen = new Set<string>();
+      for (const [i, entry] of entries.entries()) {
+        if (!entry || typeof entry.id !== 'string' || entry.id.trim() === '') {
+          throw new Error(`Taxonomy ${taxonomyPath}: ${field}[${i}] needs an "id"`);
+        }
+        if (seen.has(entry.id)) {
+          throw new Error(`Taxonomy ${taxonomyPath}: duplicate ${field} "${entry.id}"`);
+        }
+        seen.add(entry.id);
+        if (entry.group !== undefined && !/^[\w-]+$/.test(entry.group)) {
+          throw new Error(`Taxonomy ${taxonomyPath}: group "${entry.group}" of ${field} "${entry.id}" may only use letters, digits, '_' and '-'`);
+        }
+      }
+    }
+    return new Taxonomy(path.resolve(taxonomyPath), content, file);
+  }
+
+  /**
+   * Every allowed value of a field, whichever prompt asks for it.
+   */
+  values(field: TaxonomyField): string[] {
+    return this.file[field].map(e => e.id);
+  }
+
+  /**
+   * Entries offered by a prompt; all entries when no prompt is given.
+   */
+  entries(field: TaxonomyField, promptName?: string): TaxonomyEntry[] {
+    return this.file[field].filter(e => !promptName || !e.prompts || e.prompts.includes(promptName));
+  }
+
+  /**
+   * Group names in taxonomy order, each written as `<group>_calls.json`.
+   */
+  get groups(): string[] {
+    return [...new Set(this.file.call_tags.map(e => e.group).filter((g): g is string => Boolean(g)))];
+  }
+
+  /**
+   * Group of the first grouped tag (in taxonomy order) among `tags`, or null.
+   */
+  groupOf(tags: string[]): string | null {
+    const lower = new Set(tags.map(t => t.toLowerCase()));
+    return this.file.call_tags.find(e => e.group && lower.has(e.id.toLowerCase()))?.group ?? null;
+  }
+
+  /**
+   * Replace the taxonomy placeholders in a prompt with the entries that
+   * prompt offers. Unknown placeholders are left alone.
+   */
+  render(content: string, promptName: string): string {
+    return content.replace(/\{\{\s*(call_tags|concerns|todo)(_list|_guidance)?\s*\}\}/g, (_, field: TaxonomyField, style?: string) => {
+      const entries = this.entries(field, promptName);
+      if (style === '_list') {
+        return entries.map(e => `\`${e.id}\``).join(' · ');
+      }
+      if (style === '_guidance') {
+        return entries.map(e => {
+          const lines = [`    - \`${e.id}\`${e.description ? ` – ${e.description}` : ''}`];
+          for (const detail of e.details ?? []) lines.push(`        - ${detail}`);
+          return lines.join('\n');
+        }).join('\n\n');
+      }
+      return entries.map(e => e.id).join(' | ');
+    });
+  }
+}
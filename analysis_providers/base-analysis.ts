@@ -1,12 +1,47 @@
+import { AnalysisValidation } from './analysis-schema';
+import { AnalysisPrompt } from './prompt-registry';
+import { ProviderUsage } from '../cost_tracking/price-table';
+
+export type AnalysisInputMode = 'audio' | 'transcript';
+
+export interface AnalysisInput {
+  mode: AnalysisInputMode;
+  audioPath: string; // Always set; the recording the analysis belongs to
+  transcriptPath?: string; // Set in transcript mode: the .transcript.json or .txt the text came from
+  transcriptText?: string; // Set in transcript mode
+  prompt: AnalysisPrompt; // Resolved by the PromptRegistry for this recording
+  repair?: { previousResponse: string; errors: string[] }; // Set when re-asking after a schema failure
+}
+
 export interface AnalysisResult {
   summary: string;
   keyPoints: string[];
   sentiment?: 'positive' | 'negative' | 'neutral';
   duration?: string;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any>; // Full analysis JSON as returned by the model
+  rawResponse?: string; // Unparsed model output, used to re-ask on schema failures
+  validation?: AnalysisValidation; // Set by ValidatingAnalysisProvider
+  provider?: string; // Service that produced the analysis (set by fallback chains)
+  model?: string;
+  usage?: ProviderUsage[]; // One entry per billable request, including re-asks and abandoned fallbacks
+}
+
+export interface AnalysisModelInfo {
+  provider: string;
+  model: string;
 }
 
 export interface AnalysisProvider {
   name: string;
-  analyzeTranscription(transcriptionPath: string): Promise<AnalysisResult>;
+  analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult>;
+  /**
+   * Provider/model pairs this provider would use for the given input mode
+   * (several for fallback chains). Used to spot analyses made by an older configuration.
+   */
+  getModelInfo(mode: AnalysisInputMode): AnalysisModelInfo[];
+  /**
+   * True when recordings of any size can be analysed (uploaded rather than
+   * sent inline), so the --analysis-max-mb window does not apply.
+   */
+  supportsLargeAudio?(): boolean;
 }
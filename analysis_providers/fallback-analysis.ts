@@ -0,0 +1,100 @@
+import { AnalysisInput, AnalysisInputMode, AnalysisModelInfo, AnalysisProvider, AnalysisResult } from './base-analysis';
+import { ProviderCallError, ProviderUsage, usageOf } from '../cost_tracking/price-table';
+
+export interface FallbackAnalysisConfig {
+  timeoutSeconds?: number; // Per-provider timeout. Default: 600
+}
+
+/**
+ * Tries each analysis provider in order until one returns usable JSON.
+ * A provider is skipped when it throws, times out, returns no analysis
+ * (empty result or an unparsed `raw_response`) or fails schema validation.
+ */
+export class FallbackAnalysisProvider implements AnalysisProvider {
+  name: string;
+  private providers: AnalysisProvider[];
+  private config: Required<FallbackAnalysisConfig>;
+
+  constructor(providers: AnalysisProvider[], config: FallbackAnalysisConfig = {}) {
+    if (providers.length === 0) {
+      throw new Error('Fallback chain needs at least one analysis provider');
+    }
+    this.providers = providers;
+    this.name = providers.map(p => p.name).join(' → ');
+    this.config = {
+      timeoutSeconds: config.timeoutSeconds ?? 600
+    };
+  }
+
+  getModelInfo(mode: AnalysisInputMode): AnalysisModelInfo[] {
+    return this.providers.flatMap(p => p.getModelInfo(mode));
+  }
+
+  // Only when every provider in the chain can take the large file
+  supportsLargeAudio(): boolean {
+    return this.providers.every(p => p.supportsLargeAudio?.() ?? false);
+  }
+
+  async analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult> {
+    const failures: string[] = [];
+    let partialResult: AnalysisResult | null = null;
+    // Requests to providers that were passed over still cost money
+    const usage: ProviderUsage[] = [];
+
+    for (const provider of this.providers) {
+      console.log(`🔗 Fallback chain: trying ${provider.name}`);
+
+      try {
+        const result = await this.withTimeout(provider.analyzeTranscription(input), provider.name);
+        usage.push(...(result.usage ?? []));
+
+        if (this.isEmptyResult(result)) {
+          console.warn(`⚠️  ${provider.name} returned no usable analysis, trying next provider`);
+          failures.push(`${provider.name}: empty result`);
+          partialResult = partialResult ?? { ...result, provider: provider.name };
+          continue;
+        }
+
+        if (result.validation && !result.validation.valid) {
+          console.warn(`⚠️  ${provider.name} returned analysis that failed schema validation, trying next provider`);
+          failures.push(`${provider.name}: invalid schema`);
+          // Prefer a cleaned, partially valid analysis over an empty one
+          if (!partialResult?.validation) partialResult = { ...result, provider: provider.name };
+          continue;
+        }
+
+        console.log(`✅ Analysis produced by ${provider.name}`);
+        return { ...result, provider: provider.name, usage };
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  ${provider.name} failed: ${message}`);
+        failures.push(`${provider.name}: ${message}`);
+        usage.push(...usageOf(error));
+      }
+    }
+
+    if (partialResult) {
+      console.warn(`⚠️  No provider returned fully valid analysis; keeping result from ${partialResult.provider}`);
+      return { ...partialResult, usage };
+    }
+
+    throw new ProviderCallError(`All analysis providers failed (${failures.join('; ')})`, usage);
+  }
+
+  private isEmptyResult(result: AnalysisResult): boolean {
+    const data = result.metadata;
+    return !data || Object.keys(data).length === 0 || 'raw_response' in data;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, providerName: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      // The abandoned request is still billed, though its token counts are never known
+      timer = setTimeout(
+        () => reject(new ProviderCallError(`${providerName} timed out after ${this.config.timeoutSeconds} seconds`, [{ provider: providerName }])),
+        this.config.timeoutSeconds * 1000
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
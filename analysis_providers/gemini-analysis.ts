@@ -1,7 +1,10 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { AnalysisProvider, AnalysisResult } from './base-analysis';
+import { AnalysisInput, AnalysisModelInfo, AnalysisProvider, AnalysisResult } from './base-analysis';
+import { buildRepairMessage, parseAnalysisJson } from './analysis-schema';
+import { GeminiFileUploader, UploadedFile } from '../audio_utils/gemini-file-uploader';
+import { geminiUsage } from '../cost_tracking/price-table';
 
 export interface GeminiAnalysisConfig {
   model?: string; // Default: 'gemini-2.0-flash-lite'
@@ -17,9 +20,20 @@ export class GeminiAnalysisProvider implements AnalysisProvider {
     };
   }
 
-  async analyzeTranscription(transcriptionPath: string): Promise<AnalysisResult> {
+  getModelInfo(): AnalysisModelInfo[] {
+    return [{ provider: this.name, model: this.config.model }];
+  }
+
+  supportsLargeAudio(): boolean {
+    return GeminiFileUploader.isEnabled();
+  }
+
+  async analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult> {
     console.log('🚀 GEMINI ANALYSIS STARTED');
-    console.log(`📁 Audio file: ${path.basename(transcriptionPath)}`);
+    console.log(`📁 Audio file: ${path.basename(input.audioPath)}`);
+
+    let uploader: GeminiFileUploader | null = null;
+    let uploaded: UploadedFile | null = null;
 
     try {
       console.log('🔄 Preparing Gemini analysis request...');
@@ -30,23 +44,10 @@ export class GeminiAnalysisProvider implements AnalysisProvider {
         throw new Error('Gemini API key not provided. Set GEMINI_API_KEY environment variable');
       }
 
-      const fileExt = path.extname(transcriptionPath).toLowerCase();
-      console.log(`📁 Processing file: ${path.basename(transcriptionPath)}`);
-      console.log(`🎵 File format: ${fileExt}`);
-
-      // Read the audio file
-      console.log(`📖 Reading audio file...`);
-      const audioBuffer = await fs.readFile(transcriptionPath);
-      console.log(`✅ File read successfully, size: ${audioBuffer.length} bytes`);
-
-      const fileSize = (audioBuffer.length / 1024 / 1024).toFixed(2);
-      console.log(`📏 File size: ${fileSize} MB`);
-
-      // Read the prompt.md file
-      const promptPath = path.join(__dirname, 'prompt.md');
-      console.log(`📖 Reading prompt file...`);
-      const promptContent = await fs.readFile(promptPath, 'utf8');
-      console.log(`✅ Prompt read successfully`);
+      const promptContent = input.prompt.content;
+      console.log(`📜 Prompt: ${input.prompt.name}`);
+      // When re-asking after a schema failure, the fix-up instructions go last
+      const repairParts = input.repair ? [buildRepairMessage(input.repair.errors, input.repair.previousResponse)] : [];
 
       // Initialize Gemini
       console.log('💎 Initializing Gemini client...');
@@ -54,23 +55,54 @@ export class GeminiAnalysisProvider implements AnalysisProvider {
       const model = genAI.getGenerativeModel({ model: this.config.model });
       console.log(`✅ Gemini ${this.config.model} initialized`);
 
-      // Convert audio buffer to base64
-      const audioBase64 = audioBuffer.toString('base64');
-      const mimeType = this.getMimeType(fileExt);
-
-      console.log('🎙️ Sending analysis request to Gemini API...');
-      console.log('⏳ Processing audio file...');
-
-      // Generate content with audio
-      const result = await model.generateContent([
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: audioBase64
-          }
-        },
-        promptContent
-      ]);
+      let result;
+      if (input.mode === 'transcript') {
+        if (!input.transcriptText) {
+          throw new Error('Transcript mode requires transcript text');
+        }
+        console.log(`📝 Analysing transcript: ${path.basename(input.transcriptPath ?? input.audioPath)} (${input.transcriptText.length} chars)`);
+        console.log('🎙️ Sending analysis request to Gemini API...');
+
+        result = await model.generateContent([
+          promptContent,
+          `### Call Transcript\n\n${input.transcriptText}`,
+          ...repairParts
+        ]);
+      } else {
+        const fileExt = path.extname(input.audioPath).toLowerCase();
+        console.log(`📁 Processing file: ${path.basename(input.audioPath)}`);
+        console.log(`🎵 File format: ${fileExt}`);
+
+        const mimeType = this.getMimeType(fileExt);
+        const { size } = await fs.stat(input.audioPath);
+        console.log(`📏 File size: ${(size / 1024 / 1024).toFixed(2)} MB`);
+
+        let audioPart;
+        uploader = new GeminiFileUploader(geminiApiKey);
+        if (uploader.shouldUpload(size)) {
+          // Large recordings go through the Files API and are referenced by URI
+          uploaded = await uploader.upload(input.audioPath, mimeType);
+          audioPart = { fileData: { mimeType: uploaded.mimeType, fileUri: uploaded.uri } };
+        } else {
+          // Read the audio file
+          console.log(`📖 Reading audio file...`);
+          const audioBuffer = await fs.readFile(input.audioPath);
+          console.log(`✅ File read successfully, size: ${audioBuffer.length} bytes`);
+
+          // Convert audio buffer to base64
+          audioPart = { inlineData: { mimeType: mimeType, data: audioBuffer.toString('base64') } };
+        }
+
+        console.log('🎙️ Sending analysis request to Gemini API...');
+        console.log('⏳ Processing audio file...');
+
+        // Generate content with audio
+        result = await model.generateContent([
+          audioPart,
+          promptContent,
+          ...repairParts
+        ]);
+      }
 
       console.log('✅ Received response from Gemini API');
 
@@ -80,22 +112,14 @@ export class GeminiAnalysisProvider implements AnalysisProvider {
       console.log(`💾 Processing analysis response...`);
 
       // Try to parse as JSON
-      let analysisData;
-      try {
-        // Remove markdown code blocks if present
-        const cleanedResponse = responseText.replace(/```json\s*/, '').replace(/```\s*$/, '').trim();
-        analysisData = JSON.parse(cleanedResponse);
+      let analysisData = parseAnalysisJson(responseText);
+      if (analysisData) {
         console.log('✅ Response parsed as JSON');
-      } catch (parseError) {
+      } else {
         console.warn('⚠️ Response is not valid JSON, treating as text');
         analysisData = { raw_response: responseText };
       }
 
-      // Save the JSON to a file
-      const jsonPath = path.join(path.dirname(transcriptionPath), path.basename(transcriptionPath, path.extname(transcriptionPath)) + '_analysis.json');
-      await fs.writeFile(jsonPath, JSON.stringify(analysisData, null, 2), 'utf8');
-      console.log(`✅ Analysis saved to ${jsonPath}`);
-
       // Extract basic info for AnalysisResult
       const summary = analysisData.next_best_action || 'Analysis completed';
       const keyPoints = analysisData.todo || [];
@@ -105,11 +129,14 @@ export class GeminiAnalysisProvider implements AnalysisProvider {
         summary,
         keyPoints,
         sentiment,
-        metadata: analysisData
+        metadata: analysisData,
+        rawResponse: responseText,
+        model: this.config.model,
+        usage: [geminiUsage(this.name, this.config.model, response.usageMetadata)]
       };
 
     } catch (error: unknown) {
-      console.error(`❌ Failed to analyze ${transcriptionPath} with Gemini`);
+      console.error(`❌ Failed to analyze ${input.audioPath} with Gemini`);
       console.error('🔍 Error details:');
 
       if (error instanceof Error) {
@@ -118,21 +145,11 @@ export class GeminiAnalysisProvider implements AnalysisProvider {
         console.error(`   Unknown error: ${String(error)}`);
       }
 
-      // Try to create a basic error analysis file
-      try {
-        const errorData = { error: error instanceof Error ? error.message : 'Unknown error' };
-        const jsonPath = path.join(path.dirname(transcriptionPath), path.basename(transcriptionPath, path.extname(transcriptionPath)) + '_error.json');
-        await fs.writeFile(jsonPath, JSON.stringify(errorData, null, 2), 'utf8');
-        console.log(`💾 Saved error analysis to: ${jsonPath}`);
-      } catch (writeError) {
-        console.error('❌ Could not write error analysis to file');
+      throw error;
+    } finally {
+      if (uploader && uploaded) {
+        await uploader.delete(uploaded.name);
       }
-
-      return {
-        summary: 'Analysis failed',
-        keyPoints: [],
-        sentiment: 'neutral'
-      };
     }
   }
 
@@ -0,0 +1,167 @@
+import * as path from 'path';
+import { AnalysisInput, AnalysisModelInfo, AnalysisProvider, AnalysisResult } from './base-analysis';
+import { buildRepairMessage, parseAnalysisJson } from './analysis-schema';
+
+export type LocalLlmApi = 'ollama' | 'openai';
+
+export interface LocalLlmAnalysisConfig {
+  url?: string; // Server base URL. Default: 'http://localhost:11434' (Ollama)
+  model?: string; // Default: 'llama3.1'
+  api?: LocalLlmApi; // Request format. Default: 'openai' when the URL ends in /v1, else 'ollama'
+  apiKey?: string; // Sent as a Bearer token when set
+  temperature?: number; // Default: 0
+  contextLength?: number; // Ollama num_ctx; 0 keeps the model default
+  timeoutSeconds?: number; // Default: 600
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatReply {
+  text: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * Analysis through a self-hosted LLM, so transcripts never leave the
+ * machine. Speaks either the Ollama `/api/chat` API or the OpenAI-style
+ * `/v1/chat/completions` API served by llama.cpp, vLLM, LM Studio and
+ * Ollama itself. Works on transcripts only.
+ */
+export class LocalLlmAnalysisProvider implements AnalysisProvider {
+  name = 'local-llm-analysis';
+  private config: LocalLlmAnalysisConfig & { url: string; model: string; api: LocalLlmApi; temperature: number; contextLength: number; timeoutSeconds: number };
+
+  constructor(config: LocalLlmAnalysisConfig = {}) {
+    const url = (config.url ?? process.env.LOCAL_LLM_URL ?? 'http://localhost:11434').replace(/\/+$/, '');
+    const api = config.api ?? (process.env.LOCAL_LLM_API as LocalLlmApi | undefined) ?? (/\/v1$/.test(url) ? 'openai' : 'ollama');
+    if (api !== 'ollama' && api !== 'openai') {
+      throw new Error(`Unsupported LOCAL_LLM_API: ${api}. Use 'ollama' or 'openai'`);
+    }
+    const temperature = parseFloat(String(config.temperature ?? process.env.LOCAL_LLM_TEMPERATURE ?? '0'));
+    const contextLength = parseInt(String(config.contextLength ?? process.env.LOCAL_LLM_CONTEXT_LENGTH ?? '0'), 10);
+    const timeoutSeconds = parseFloat(String(config.timeoutSeconds ?? process.env.LOCAL_LLM_TIMEOUT_SECONDS ?? '600'));
+
+    this.config = {
+      url,
+      model: config.model ?? process.env.LOCAL_LLM_MODEL ?? 'llama3.1',
+      api,
+      apiKey: config.apiKey ?? process.env.LOCAL_LLM_API_KEY,
+      temperature: isNaN(temperature) ? 0 : temperature,
+      contextLength: isNaN(contextLength) || contextLength < 0 ? 0 : contextLength,
+      timeoutSeconds: isNaN(timeoutSeconds) || timeoutSeconds <= 0 ? 600 : timeoutSeconds
+    };
+  }
+
+  getModelInfo(): AnalysisModelInfo[] {
+    return [{ provider: this.name, model: this.config.model }];
+  }
+
+  async analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult> {
+    console.log('🚀 LOCAL LLM ANALYSIS STARTED');
+    console.log(`📁 Audio file: ${path.basename(input.audioPath)}`);
+
+    try {
+      if (input.mode !== 'transcript' || !input.transcriptText) {
+        throw new Error('Local LLM analysis works on transcripts only. Use --analysis-input transcript');
+      }
+
+      console.log(`📜 Prompt: ${input.prompt.name}`);
+      console.log(`📝 Analysing transcript: ${path.basename(input.transcriptPath ?? input.audioPath)} (${input.transcriptText.length} chars)`);
+
+      const messages: ChatMessage[] = [
+        { role: 'system', content: input.prompt.content },
+        { role: 'user', content: `### Call Transcript\n\n${input.transcriptText}` }
+      ];
+      if (input.repair) {
+        messages.push({ role: 'assistant', content: input.repair.previousResponse });
+        messages.push({ role: 'user', content: buildRepairMessage(input.repair.errors) });
+      }
+
+      console.log(`🖥️  Sending analysis request to ${this.config.url} (${this.config.api} API, model ${this.config.model})...`);
+      const { text: responseText, inputTokens, outputTokens } = this.config.api === 'ollama'
+        ? await this.chatOllama(messages)
+        : await this.chatOpenAI(messages);
+      console.log('✅ Received response from local LLM');
+
+      console.log(`💾 Processing analysis response...`);
+      let analysisData = parseAnalysisJson(responseText);
+      if (analysisData) {
+        console.log('✅ Response parsed as JSON');
+      } else {
+        console.warn('⚠️ Response is not valid JSON, treating as text');
+        analysisData = { raw_response: responseText };
+      }
+
+      return {
+        summary: analysisData.next_best_action || 'Analysis completed',
+        keyPoints: analysisData.todo || [],
+        sentiment: analysisData.sentiment,
+        metadata: analysisData,
+        rawResponse: responseText,
+        model: this.config.model,
+        usage: [{ provider: this.name, model: this.config.model, inputTokens, outputTokens }]
+      };
+    } catch (error: unknown) {
+      console.error(`❌ Failed to analyze ${input.audioPath} with local LLM`);
+      console.error(`   Message: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  private async chatOllama(messages: ChatMessage[]): Promise<ChatReply> {
+    const options: Record<string, number> = { temperature: this.config.temperature };
+    if (this.config.contextLength > 0) options.num_ctx = this.config.contextLength;
+
+    const data = await this.post('/api/chat', {
+      model: this.config.model,
+      messages,
+      stream: false,
+      format: 'json',
+      options
+    });
+    return {
+      text: String(data?.message?.content ?? ''),
+      inputTokens: data?.prompt_eval_count,
+      outputTokens: data?.eval_count
+    };
+  }
+
+  private async chatOpenAI(messages: ChatMessage[]): Promise<ChatReply> {
+    const data = await this.post('/chat/completions', {
+      model: this.config.model,
+      messages,
+      temperature: this.config.temperature,
+      response_format: { type: 'json_object' }
+    });
+    return {
+      text: String(data?.choices?.[0]?.message?.content ?? ''),
+      inputTokens: data?.usage?.prompt_tokens,
+      outputTokens: data?.usage?.completion_tokens
+    };
+  }
+
+  private async post(endpoint: string, body: Record<string, any>): Promise<any> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+
+    const response = await fetch(`${this.config.url}${endpoint}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.config.timeoutSeconds * 1000)
+    });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Local LLM request failed (${response.status} ${response.statusText}): ${text.slice(0, 500)}`);
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`Local LLM returned a non-JSON HTTP body: ${text.slice(0, 200)}`);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalysisInput, AnalysisModelInfo, AnalysisProvider, AnalysisResult } from './base-analysis';
+import { parseAnalysisJson } from './analysis-schema';
+
+export interface MockAnalysisConfig {
+  responsesDir?: string; // Folder holding <name>.mock.json files. Default: next to each recording
+}
+
+/**
+ * Replays canned model responses instead of calling a provider, so the
+ * pipeline and the eval harness run offline (e.g. in CI). The response for
+ * `<name>.<ext>` is read from `<name>.mock.json` and goes through the same
+ * parsing and validation as a real model reply.
+ */
+export class MockAnalysisProvider implements AnalysisProvider {
+  name = 'mock-analysis';
+  private config: MockAnalysisConfig;
+
+  constructor(config: MockAnalysisConfig = {}) {
+    this.config = {
+      responsesDir: config.responsesDir ?? process.env.MOCK_ANALYSIS_DIR
+    };
+  }
+
+  getModelInfo(): AnalysisModelInfo[] {
+    return [{ provider: this.name, model: 'mock' }];
+  }
+
+  async analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult> {
+    const baseName = path.basename(input.audioPath, path.extname(input.audioPath));
+    const responsePath = path.join(this.config.responsesDir ?? path.dirname(input.audioPath), `${baseName}.mock.json`);
+
+    let responseText: string;
+    try {
+      responseText = await fs.readFile(responsePath, 'utf8');
+    } catch {
+      throw new Error(`No mock response for ${path.basename(input.audioPath)} (looked for ${responsePath})`);
+    }
+    console.log(`🧪 Mock response: ${path.basename(responsePath)}`);
+
+    const analysisData = parseAnalysisJson(responseText) ?? { raw_response: responseText };
+    return {
+      summary: analysisData.next_best_action || 'Analysis completed',
+      keyPoints: analysisData.todo || [],
+      sentiment: analysisData.sentiment,
+      metadata: analysisData,
+      rawResponse: responseText,
+      model: 'mock'
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import OpenAI from 'openai';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalysisInput, AnalysisInputMode, AnalysisModelInfo, AnalysisProvider, AnalysisResult } from './base-analysis';
+import { buildRepairMessage, parseAnalysisJson } from './analysis-schema';
+import { AudioConverter } from '../audio_utils/audio-converter';
+
+export interface OpenAIAnalysisConfig {
+  model?: string; // Model for transcript input. Default: 'gpt-4o-mini'
+  audioModel?: string; // Audio-capable model for audio input. Default: 'gpt-4o-audio-preview'
+  apiKey?: string; // Default: OPENAI_API_KEY
+  baseUrl?: string; // Default: the OpenAI API
+  temperature?: number; // Default: 0
+}
+
+/**
+ * Analysis through OpenAI chat completions using the same prompt files as
+ * Gemini. Transcript input uses JSON mode; audio input is sent as an
+ * `input_audio` part to an audio-capable model (WAV or MP3, converting other
+ * formats with ffmpeg first).
+ */
+export class OpenAIAnalysisProvider implements AnalysisProvider {
+  name = 'openai-analysis';
+  private converter: AudioConverter;
+  private config: OpenAIAnalysisConfig & { model: string; audioModel: string; temperature: number };
+
+  constructor(converter: AudioConverter, config: OpenAIAnalysisConfig = {}) {
+    this.converter = converter;
+    const temperature = parseFloat(String(config.temperature ?? process.env.OPENAI_ANALYSIS_TEMPERATURE ?? '0'));
+    this.config = {
+      model: config.model ?? process.env.OPENAI_ANALYSIS_MODEL ?? 'gpt-4o-mini',
+      audioModel: config.audioModel ?? process.env.OPENAI_ANALYSIS_AUDIO_MODEL ?? 'gpt-4o-audio-preview',
+      apiKey: config.apiKey ?? process.env.OPENAI_API_KEY,
+      baseUrl: config.baseUrl ?? process.env.OPENAI_ANALYSIS_BASE_URL,
+      temperature: isNaN(temperature) ? 0 : temperature
+    };
+  }
+
+  getModelInfo(mode: AnalysisInputMode): AnalysisModelInfo[] {
+    return [{ provider: this.name, model: mode === 'transcript' ? this.config.model : this.config.audioModel }];
+  }
+
+  async analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult> {
+    console.log('🚀 OPENAI ANALYSIS STARTED');
+    console.log(`📁 Audio file: ${path.basename(input.audioPath)}`);
+
+    let tempWavPath: string | null = null;
+
+    try {
+      if (!this.config.apiKey) {
+        throw new Error('OpenAI API key not provided. Use --api-key option or set OPENAI_API_KEY environment variable');
+      }
+
+      const openai = new OpenAI({ apiKey: this.config.apiKey, baseURL: this.config.baseUrl });
+      console.log(`📜 Prompt: ${input.prompt.name}`);
+
+      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+        { role: 'system', content: input.prompt.content }
+      ];
+      let model: string;
+
+      if (input.mode === 'transcript') {
+        if (!input.transcriptText) {
+          throw new Error('Transcript mode requires transcript text');
+        }
+        model = this.config.model;
+        console.log(`📝 Analysing transcript: ${path.basename(input.transcriptPath ?? input.audioPath)} (${input.transcriptText.length} chars)`);
+        messages.push({ role: 'user', content: `### Call Transcript\n\n${input.transcriptText}` });
+      } else {
+        model = this.config.audioModel;
+        const fileExt = path.extname(input.audioPath).toLowerCase();
+        let audioBuffer: Buffer;
+        let format: 'wav' | 'mp3';
+
+        if (fileExt === '.mp3' || fileExt === '.wav') {
+          console.log(`📖 Reading audio file...`);
+          audioBuffer = await fs.readFile(input.audioPath);
+          format = fileExt === '.mp3' ? 'mp3' : 'wav';
+        } else {
+          console.log(`🔄 Converting ${fileExt} file to WAV for ${model}`);
+          const conversion = await this.converter.convertToWav(input.audioPath);
+          tempWavPath = conversion.wavPath;
+          audioBuffer = conversion.buffer;
+          format = 'wav';
+        }
+        console.log(`📏 File size: ${(audioBuffer.length / 1024 / 1024).toFixed(2)} MB`);
+
+        messages.push({
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Analyse this call recording and return only the JSON object described above.' },
+            { type: 'input_audio', input_audio: { data: audioBuffer.toString('base64'), format } }
+          ]
+        });
+      }
+
+      if (input.repair) {
+        messages.push({ role: 'assistant', content: input.repair.previousResponse });
+        messages.push({ role: 'user', content: buildRepairMessage(input.repair.errors) });
+      }
+
+      console.log(`🤖 Sending analysis request to OpenAI (${model})...`);
+      const completion = await openai.chat.completions.create({
+        model,
+        messages,
+        temperature: this.config.temperature,
+        // Audio models do not support JSON mode; their replies are parsed and validated instead
+        ...(input.mode === 'transcript' ? { response_format: { type: 'json_object' as const } } : {})
+      });
+      console.log('✅ Received response from OpenAI API');
+
+      const responseText = completion.choices[0]?.message?.content ?? '';
+
+      console.log(`💾 Processing analysis response...`);
+      let analysisData = parseAnalysisJson(responseText);
+      if (analysisData) {
+        console.log('✅ Response parsed as JSON');
+      } else {
+        console.warn('⚠️ Response is not valid JSON, treating as text');
+        analysisData = { raw_response: responseText };
+      }
+
+      return {
+        summary: analysisData.next_best_action || 'Analysis completed',
+        keyPoints: analysisData.todo || [],
+        sentiment: analysisData.sentiment,
+        metadata: analysisData,
+        rawResponse: responseText,
+        model,
+        usage: [{
+          provider: this.name,
+          model,
+          inputTokens: completion.usage?.prompt_tokens,
+          // Audio tokens are priced separately from the text prompt
+          audioInputTokens: completion.usage?.prompt_tokens_details?.audio_tokens || undefined,
+          outputTokens: completion.usage?.completion_tokens
+        }]
+      };
+    } catch (error: unknown) {
+      console.error(`❌ Failed to analyze ${input.audioPath} with OpenAI`);
+      console.error(`   Message: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    } finally {
+      if (tempWavPath) {
+        await this.converter.cleanupTempFile(tempWavPath);
+      }
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Taxonomy } from './analysis-taxonomy';
+
+export interface AnalysisPrompt {
+  name: string; // 'default', a bundled prompt name, or the file name of a custom prompt
+  source: string; // Absolute path the prompt was read from
+  content: string;
+  hash: string; // 'sha256:<hex>' of the content (after rendering the taxonomy)
+}
+
+/**
+ * One entry of a prompt rules file. Every condition that is set must match
+ * (case-insensitive regular expressions); the first matching rule wins.
+ */
+export interface PromptRule {
+  prompt: string; // Prompt name or path
+  callType?: string; // FilenameMetadata.callType, e.g. "outgoing"
+  folder?: string; // Name of the folder holding the recording
+  filename?: string; // Recording file name
+  tag?: string; // call_tags[].tag from an earlier analysis of the same recording
+}
+
+export interface PromptRulesFile {
+  default?: string; // Prompt used when no rule matches. Default: 'default' (prompt.md)
+  rules?: PromptRule[];
+}
+
+export interface PromptContext {
+  audioPath: string;
+  callType?: string;
+  tags?: string[];
+}
+
+export interface PromptRegistryConfig {
+  prompt?: string; // Forces one prompt for every recording (--prompt)
+  rulesPath?: string; // JSON file with PromptRulesFile contents (--prompt-rules)
+  promptDir?: string; // Where bundled prompts live. Default: this directory
+  taxonomy?: Taxonomy; // Fills the {{call_tags}} etc. placeholders
+}
+
+/**
+ * Resolves which analysis prompt to use for a recording.
+ *
+ * Prompts are referenced by name or path. Bundled prompts live next to this
+ * file: `prompt.md` is `default` and `prompt_<name>.md` is `<name>`
+ * (e.g. `f2f_profile_completion`). Anything else is treated as a file path.
+ * Taxonomy placeholders are filled in when a prompt is read.
+ */
+export class PromptRegistry {
+  private forcedPrompt?: string;
+  private promptDir: string;
+  private taxonomy?: Taxonomy;
+  private rules: PromptRule[] = [];
+  private defaultPrompt = 'default';
+  private cache = new Map<string, AnalysisPrompt>();
+
+  private constructor(config: PromptRegistryConfig) {
+    this.forcedPrompt = config.prompt;
+    this.promptDir = config.promptDir ?? __dirname;
+    this.taxonomy = config.taxonomy;
+  }
+
+  static async load(config: PromptRegistryConfig = {}): Promise<PromptRegistry> {
+    const registry = new PromptRegistry(config);
+
+    if (config.rulesPath) {
+      let parsed: PromptRulesFile;
+      try {
+        parsed = JSON.parse(await fs.readFile(config.rulesPath, 'utf8'));
+      } catch (error: unknown) {
+        throw new Error(`Could not read prompt rules ${config.rulesPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      registry.rules = Array.isArray(parsed.rules) ? parsed.rules : [];
+      registry.defaultPrompt = parsed.default ?? 'default';
+      for (const [i, rule] of registry.rules.entries()) {
+        if (!rule || typeof rule.prompt !== 'string') {
+          throw new Error(`Prompt rule #${i + 1} in ${config.rulesPath} has no "prompt"`);
+        }
+        for (const key of ['callType', 'folder', 'filename', 'tag'] as const) {
+          if (rule[key] === undefined) continue;
+          try {
+            new RegExp(rule[key]!, 'i');
+          } catch {
+            throw new Error(`Prompt rule #${i + 1} in ${config.rulesPath} has an invalid ${key} pattern: ${rule[key]}`);
+          }
+        }
+      }
+    }
+
+    // Fail fast on typos instead of after the first recording
+    if (config.prompt) {
+      await registry.get(config.prompt);
+    } else {
+      await registry.get(registry.defaultPrompt);
+      for (const rule of registry.rules) {
+        await registry.get(rule.prompt);
+      }
+    }
+
+    return registry;
+  }
+
+  get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  async resolve(context: PromptContext): Promise<AnalysisPrompt> {
+    if (this.forcedPrompt) {
+      return this.get(this.forcedPrompt);
+    }
+    const rule = this.rules.find(r => this.matches(r, context));
+    return this.get(rule ? rule.prompt : this.defaultPrompt);
+  }
+
+  async get(nameOrPath: string): Promise<AnalysisPrompt> {
+    const cached = this.cache.get(nameOrPath);
+    if (cached) return cached;
+
+    const { name, source } = this.locate(nameOrPath);
+    let content: string;
+    try {
+      content = await fs.readFile(source, 'utf8');
+    } catch {
+      throw new Error(`Prompt "${nameOrPath}" not found (looked for ${source})`);
+    }
+    if (this.taxonomy) {
+      content = this.taxonomy.render(content, name);
+    }
+
+    const prompt: AnalysisPrompt = {
+      name,
+      source,
+      content,
+      hash: `sha256:${createHash('sha256').update(content).digest('hex')}`
+    };
+    this.cache.set(nameOrPath, prompt);
+    return prompt;
+  }
+
+  private locate(nameOrPath: string): { name: string; source: string } {
+    const looksLikePath = nameOrPath.includes('/') || nameOrPath.includes('\\') || path.extname(nameOrPath) !== '';
+    if (looksLikePath) {
+      return { name: path.basename(nameOrPath, path.extname(nameOrPath)), source: path.resolve(nameOrPath) };
+    }
+    const file = nameOrPath === 'default' ? 'prompt.md' : `prompt_${nameOrPath}.md`;
+    return { name: nameOrPath, source: path.join(this.promptDir, file) };
+  }
+
+  private matches(rule: PromptRule, context: PromptContext): boolean {
+    const test = (pattern: string | undefined, value: string) => pattern === undefined || new RegExp(pattern, 'i').test(value);
+    const folder = path.basename(path.dirname(path.resolve(context.audioPath)));
+
+    return test(rule.callType, context.callType ?? '')
+      && test(rule.folder, folder)
+      && test(rule.filename, path.basename(context.audioPath))
+      && (rule.tag === undefined || (context.tags ?? []).some(t => test(rule.tag, t)));
+  }
+}
@@ -0,0 +1,72 @@
+import { AnalysisInputMode, AnalysisModelInfo } from './base-analysis';
+import { AnalysisPrompt } from './prompt-registry';
+import { UsageSummary } from '../cost_tracking/usage-ledger';
+import packageJson from '../package.json';
+
+// package.json is the only place the version is set, so a release bump marks older analyses stale
+export const TOOL_VERSION: string = packageJson.version;
+
+/**
+ * Stored as `provenance` in every `_analysis.json`: what produced the analysis.
+ */
+export interface AnalysisProvenance {
+  prompt_name: string;
+  prompt_hash: string;
+  provider?: string;
+  model?: string;
+  analysis_input: AnalysisInputMode;
+  transcript_source?: string; // File name of the transcript, for transcript input
+  tool_version: string;
+  analysed_at: string;
+  usage?: UsageSummary; // Requests, tokens, audio and cost of producing this output
+}
+
+export function buildProvenance(fields: {
+  prompt: AnalysisPrompt;
+  provider?: string;
+  model?: string;
+  mode: AnalysisInputMode;
+  transcriptSource?: string;
+  usage?: UsageSummary;
+}): AnalysisProvenance {
+  return {
+    prompt_name: fields.prompt.name,
+    prompt_hash: fields.prompt.hash,
+    provider: fields.provider,
+    model: fields.model,
+    analysis_input: fields.mode,
+    transcript_source: fields.transcriptSource,
+    tool_version: TOOL_VERSION,
+    analysed_at: new Date().toISOString(),
+    usage: fields.usage
+  };
+}
+
+/**
+ * Why an existing analysis no longer matches the current configuration, or
+ * null when it is current. The tool version is recorded but does not make an
+ * analysis stale on its own.
+ */
+export function getStaleReason(
+  analysis: Record<string, any> | null,
+  prompt: AnalysisPrompt,
+  models: AnalysisModelInfo[],
+  mode: AnalysisInputMode
+): string | null {
+  const provenance: Partial<AnalysisProvenance> | undefined = analysis?.provenance;
+  if (!provenance || typeof provenance !== 'object') {
+    return 'no provenance recorded';
+  }
+  if (provenance.prompt_hash !== prompt.hash) {
+    return provenance.prompt_name === prompt.name
+      ? `prompt "${prompt.name}" changed`
+      : `prompt changed from "${provenance.prompt_name ?? 'unknown'}" to "${prompt.name}"`;
+  }
+  if (!models.some(m => m.provider === provenance.provider && m.model === provenance.model)) {
+    return `model changed from ${provenance.provider ?? 'unknown'}/${provenance.model ?? 'unknown'} to ${models.map(m => `${m.provider}/${m.model}`).join(' or ')}`;
+  }
+  if (provenance.analysis_input !== mode) {
+    return `analysis input changed from ${provenance.analysis_input ?? 'unknown'} to ${mode}`;
+  }
+  return null;
+}
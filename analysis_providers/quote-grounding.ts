@@ -0,0 +1,135 @@
+export type GroundingMode = 'off' | 'flag' | 'drop' | 'downweight';
+
+export const GROUNDING_MODES: GroundingMode[] = ['off', 'flag', 'drop', 'downweight'];
+
+export interface GroundingConfig {
+  mode?: GroundingMode; // Default: 'flag'
+  threshold?: number; // Minimum score for a quote to count as grounded. Default: 0.8
+}
+
+export interface UngroundedItem {
+  field: 'call_tags' | 'concerns';
+  value: string; // The tag or concern the quote was meant to support
+  quote: string;
+  score: number;
+}
+
+export interface GroundingReport {
+  checked: boolean;
+  reason?: string; // Why the check did not run
+  mode: GroundingMode;
+  threshold: number;
+  items: number; // Quotes checked
+  ungrounded: UngroundedItem[];
+  dropped: number; // Items removed in drop mode
+}
+
+/**
+ * Checks every `call_tags[].quote` and `concerns[].quote` against the
+ * transcript. Each item gets a `grounded` score (0–1): the share of the
+ * quote's words found in order within the best-matching stretch of the
+ * transcript. Items scoring below the threshold are flagged, dropped, or have
+ * their `quality_score` scaled down, depending on the mode.
+ */
+export function groundAnalysis(
+  analysis: Record<string, any>,
+  transcriptText: string | null,
+  config: GroundingConfig = {}
+): { analysis: Record<string, any>; report: GroundingReport } {
+  const mode = config.mode ?? 'flag';
+  const threshold = config.threshold ?? 0.8;
+  const report: GroundingReport = { checked: false, mode, threshold, items: 0, ungrounded: [], dropped: 0 };
+
+  if (!transcriptText || transcriptText.trim().length === 0) {
+    return { analysis, report: { ...report, reason: 'No transcript available' } };
+  }
+
+  const transcriptTokens = tokenize(transcriptText);
+  const result: Record<string, any> = { ...analysis };
+
+  for (const field of ['call_tags', 'concerns'] as const) {
+    if (!Array.isArray(analysis[field])) continue;
+    const valueKey = field === 'call_tags' ? 'tag' : 'concern';
+    const kept: any[] = [];
+
+    for (const item of analysis[field]) {
+      if (!item || typeof item !== 'object') {
+        kept.push(item);
+        continue;
+      }
+      const quote = typeof item.quote === 'string' ? item.quote : '';
+      const score = Math.round(scoreQuote(quote, transcriptTokens) * 100) / 100;
+      report.items++;
+
+      const grounded = score >= threshold;
+      if (!grounded) {
+        report.ungrounded.push({ field, value: String(item[valueKey] ?? ''), quote, score });
+      }
+
+      if (!grounded && mode === 'drop') {
+        report.dropped++;
+        continue;
+      }
+
+      const updated = { ...item, grounded: score };
+      if (!grounded && mode === 'downweight') {
+        const quality = typeof item.quality_score === 'number' ? item.quality_score : 1;
+        updated.quality_score = Math.round(quality * score * 100) / 100;
+      }
+      kept.push(updated);
+    }
+
+    result[field] = kept;
+  }
+
+  report.checked = true;
+  return { analysis: result, report };
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/[’‘`]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(t => t.length > 0);
+}
+
+/**
+ * Best in-order word overlap between the quote and any transcript window a
+ * little longer than the quote (to tolerate filler words and speaker labels).
+ */
+function scoreQuote(quote: string, transcriptTokens: string[]): number {
+  const quoteTokens = tokenize(quote);
+  if (quoteTokens.length === 0 || transcriptTokens.length === 0) return 0;
+
+  const quoteSet = new Set(quoteTokens);
+  const windowSize = Math.ceil(quoteTokens.length * 1.5) + 2;
+  let best = 0;
+
+  for (let start = 0; start < transcriptTokens.length; start++) {
+    // Only start windows on a word the quote contains
+    if (!quoteSet.has(transcriptTokens[start])) continue;
+    const window = transcriptTokens.slice(start, start + windowSize);
+    const matched = longestCommonSubsequence(quoteTokens, window);
+    if (matched > best) {
+      best = matched;
+      if (best === quoteTokens.length) break;
+    }
+  }
+
+  return best / quoteTokens.length;
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,237 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalysisInput, AnalysisModelInfo, AnalysisProvider, AnalysisResult } from './base-analysis';
+import { ANALYSIS_SCHEMA } from './analysis-schema';
+import { loadTranscriptText } from './analysis-input';
+import { Taxonomy } from './analysis-taxonomy';
+
+export type RuleField = 'call_tags' | 'concerns' | 'todo' | 'payment_intent' | 'sentiment';
+
+export interface TagRule {
+  field: RuleField;
+  value: string; // Must be an allowed value of the field in the analysis schema or taxonomy
+  keywords?: string[]; // Whole words, case-insensitive
+  phrases?: string[]; // Word sequences, ignoring case and punctuation
+  patterns?: string[]; // Regular expressions, case-insensitive
+  speaker?: 'user' | 'agent'; // Only match lines spoken by this side
+  prefilter?: boolean; // Whether a match makes the call worth an LLM pass (--rules-prefilter). Default: true
+}
+
+export interface TagRulesFile {
+  name?: string; // Default: the file name
+  speakers?: { agent?: string[] }; // Transcript speaker labels of the agent; everyone else is the user
+  defaults?: { sentiment?: string; payment_intent?: string; confidence?: number };
+  rules: TagRule[];
+}
+
+export interface TagRuleSet {
+  name: string;
+  source: string;
+  hash: string; // 'sha256:<hex>' of the file, so edited rules count as a new model
+  agentLabels: string[];
+  defaults: { sentiment: string; payment_intent: string; confidence: number };
+  rules: CompiledRule[];
+}
+
+export interface RuleMatch {
+  rule: TagRule;
+  speaker: 'user' | 'agent';
+  quote: string;
+}
+
+export interface CompiledRule {
+  rule: TagRule;
+  terms: string[]; // Normalised keywords and phrases
+  patterns: RegExp[];
+}
+
+interface Sentence {
+  speaker: 'user' | 'agent' | null; // null when the transcript has no speaker labels
+  text: string;
+}
+
+const DEFAULT_AGENT_LABELS = ['agent', 'speaker 1', 'representative'];
+
+export async function loadTagRules(rulesPath: string, taxonomy: Taxonomy): Promise<TagRuleSet> {
+  let content: string;
+  let file: TagRulesFile;
+  try {
+    content = await fs.readFile(rulesPath, 'utf8');
+    file = JSON.parse(content);
+  } catch (error: unknown) {
+    throw new Error(`Could not read tag rules ${rulesPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!file || !Array.isArray(file.rules) || file.rules.length === 0) {
+    throw new Error(`Tag rules ${rulesPath} have no rules`);
+  }
+  const allowedValues: Record<RuleField, string[]> = {
+    call_tags: taxonomy.values('call_tags'),
+    concerns: taxonomy.values('concerns'),
+    todo: taxonomy.values('todo'),
+    payment_intent: ANALYSIS_SCHEMA.paymentIntent,
+    sentiment: ANALYSIS_SCHEMA.sentiment
+  };
+  const rules = file.rules.map((rule, i): CompiledRule => {
+    const label = `Tag rule #${i + 1} in ${rulesPath}`;
+    const allowed = allowedValues[rule?.field];
+    if (!allowed) {
+      throw new Error(`${label} has an unsupported field "${rule?.field}". Use one of: ${Object.keys(allowedValues).join(', ')}`);
+    }
+    if (!allowed.includes(rule.value)) {
+      throw new Error(`${label}: "${rule.value}" is not one of: ${allowed.join(', ')}`);
+    }
+    if (rule.speaker !== undefined && rule.speaker !== 'user' && rule.speaker !== 'agent') {
+      throw new Error(`${label}: speaker must be 'user' or 'agent'`);
+    }
+    const terms = [...(rule.keywords ?? []), ...(rule.phrases ?? [])].map(normalise).filter(t => t.length > 0);
+    const patterns = (rule.patterns ?? []).map(p => {
+      try {
+        return new RegExp(p, 'i');
+      } catch (error: unknown) {
+        throw new Error(`${label} has an invalid pattern ${p}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+    if (terms.length === 0 && patterns.length === 0) {
+      throw new Error(`${label} needs keywords, phrases or patterns`);
+    }
+    return { rule, terms, patterns };
+  });
+
+  const defaults = {
+    sentiment: file.defaults?.sentiment ?? 'neutral',
+    payment_intent: file.defaults?.payment_intent ?? 'not_discussed',
+    confidence: file.defaults?.confidence ?? 0.5
+  };
+  if (!ANALYSIS_SCHEMA.sentiment.includes(defaults.sentiment)) {
+    throw new Error(`Tag rules ${rulesPath}: default sentiment "${defaults.sentiment}" is not one of: ${ANALYSIS_SCHEMA.sentiment.join(', ')}`);
+  }
+  if (!ANALYSIS_SCHEMA.paymentIntent.includes(defaults.payment_intent)) {
+    throw new Error(`Tag rules ${rulesPath}: default payment_intent "${defaults.payment_intent}" is not one of: ${ANALYSIS_SCHEMA.paymentIntent.join(', ')}`);
+  }
+  if (typeof defaults.confidence !== 'number' || defaults.confidence < 0 || defaults.confidence > 1) {
+    throw new Error(`Tag rules ${rulesPath}: default confidence must be a number between 0 and 1`);
+  }
+
+  return {
+    name: file.name || path.basename(rulesPath, path.extname(rulesPath)),
+    source: path.resolve(rulesPath),
+    hash: `sha256:${createHash('sha256').update(content).digest('hex')}`,
+    agentLabels: (file.speakers?.agent ?? DEFAULT_AGENT_LABELS).map(l => l.trim().toLowerCase()),
+    defaults,
+    rules
+  };
+}
+
+/**
+ * First sentence matching each rule. A rule with a speaker only matches
+ * lines from that side; in transcripts without speaker labels it matches any
+ * line and the quote is attributed to the rule's speaker.
+ */
+export function matchTagRules(ruleSet: TagRuleSet, transcriptText: string): RuleMatch[] {
+  const sentences = splitSentences(transcriptText, ruleSet.agentLabels);
+  const matches: RuleMatch[] = [];
+
+  for (const { rule, terms, patterns } of ruleSet.rules) {
+    const hit = sentences.find(s => {
+      if (rule.speaker && s.speaker && s.speaker !== rule.speaker) return false;
+      const normalised = ` ${normalise(s.text)} `;
+      return terms.some(t => normalised.includes(` ${t} `)) || patterns.some(p => p.test(s.text));
+    });
+    if (hit) {
+      matches.push({ rule, speaker: hit.speaker ?? rule.speaker ?? 'user', quote: hit.text });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Analysis JSON in the shape the prompts ask for, built from rule matches.
+ * Tags, concerns and todos keep the first match per value; sentiment and
+ * payment intent take the first matching rule, else the rule set defaults.
+ */
+export function buildRulesAnalysis(ruleSet: TagRuleSet, matches: RuleMatch[]): Record<string, any> {
+  const first = (field: RuleField): RuleMatch[] => {
+    const byValue = new Map<string, RuleMatch>();
+    for (const m of matches) {
+      if (m.rule.field === field && !byValue.has(m.rule.value)) byValue.set(m.rule.value, m);
+    }
+    return [...byValue.values()];
+  };
+  const todo = first('todo').map(m => m.rule.value);
+
+  return {
+    gender: 'unknown',
+    sentiment: first('sentiment')[0]?.rule.value ?? ruleSet.defaults.sentiment,
+    confidence: ruleSet.defaults.confidence,
+    payment_intent: first('payment_intent')[0]?.rule.value ?? ruleSet.defaults.payment_intent,
+    call_tags: first('call_tags').map(m => ({ tag: m.rule.value, speaker: m.speaker, quote: m.quote })),
+    concerns: first('concerns').map(m => ({ concern: m.rule.value, quote: m.quote })),
+    todo: todo.length > 0 ? todo : ['No action needed'],
+    next_best_action: todo[0] ?? 'No action needed'
+  };
+}
+
+/**
+ * Offline, deterministic analysis from keyword, phrase and regex rules
+ * (`analysis_providers/rules.json` unless TAG_RULES / --tag-rules says
+ * otherwise). Free and instant; useful as a baseline for LLM tags and to
+ * decide which calls deserve an LLM pass. Reads the transcript from the
+ * input, or from disk in audio mode.
+ */
+export class RulesAnalysisProvider implements AnalysisProvider {
+  name = 'rules-analysis';
+  private ruleSet: TagRuleSet;
+
+  constructor(ruleSet: TagRuleSet) {
+    this.ruleSet = ruleSet;
+  }
+
+  getModelInfo(): AnalysisModelInfo[] {
+    return [{ provider: this.name, model: `${this.ruleSet.name}@${this.ruleSet.hash.slice(7, 19)}` }];
+  }
+
+  async analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult> {
+    console.log('🚀 RULE-BASED ANALYSIS STARTED');
+    console.log(`📁 Audio file: ${path.basename(input.audioPath)}`);
+
+    if (input.prompt.name.startsWith('scorecard:')) {
+      throw new Error('Rule-based analysis cannot score calls against a rubric');
+    }
+    const transcriptText = input.transcriptText ?? (await loadTranscriptText(input.audioPath))?.text;
+    if (!transcriptText) {
+      throw new Error('Rule-based analysis needs a transcript; transcribe this file first');
+    }
+
+    const matches = matchTagRules(this.ruleSet, transcriptText);
+    console.log(`📏 ${matches.length} of ${this.ruleSet.rules.length} rule(s) matched (${this.ruleSet.name})`);
+    const analysisData = buildRulesAnalysis(this.ruleSet, matches);
+
+    return {
+      summary: analysisData.next_best_action,
+      keyPoints: analysisData.todo,
+      sentiment: analysisData.sentiment,
+      metadata: analysisData,
+      model: this.getModelInfo()[0].model
+    };
+  }
+}
+
+function splitSentences(transcriptText: string, agentLabels: string[]): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const line of transcriptText.split(/\r?\n/)) {
+    // `[mm:ss] Speaker: text` as rendered from structured transcripts; both parts optional
+    const match = /^\s*(?:\[\d{1,2}:\d{2}(?::\d{2})?\]\s*)?(?:([A-Za-z][\w .'-]{0,29}):\s+)?(.*)$/.exec(line);
+    const label = match?.[1]?.trim().toLowerCase();
+    const speaker = label ? (agentLabels.includes(label) ? 'agent' : 'user') : null;
+    for (const text of (match?.[2] ?? line).split(/(?<=[.!?])\s+/)) {
+      if (text.trim()) sentences.push({ speaker, text: text.trim() });
+    }
+  }
+  return sentences;
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[’`]/g, "'").replace(/[^\p{L}\p{N}']+/gu, ' ').trim();
+}
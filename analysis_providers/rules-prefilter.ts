@@ -0,0 +1,51 @@
+import * as path from 'path';
+import { AnalysisInput, AnalysisInputMode, AnalysisModelInfo, AnalysisProvider, AnalysisResult } from './base-analysis';
+import { loadTranscriptText } from './analysis-input';
+import { matchTagRules, TagRuleSet } from './rules-analysis';
+
+/**
+ * Runs the tag rules before the (paid) analysis chain and only passes a call
+ * on when a rule with `prefilter` left on matches. Other calls get the
+ * rule-based analysis instead. Calls without a transcript on disk always go
+ * to the chain, since there is nothing to match.
+ */
+export class RulesPrefilterAnalysisProvider implements AnalysisProvider {
+  name: string;
+  private rulesProvider: AnalysisProvider;
+  private inner: AnalysisProvider;
+  private ruleSet: TagRuleSet;
+
+  constructor(ruleSet: TagRuleSet, rulesProvider: AnalysisProvider, inner: AnalysisProvider) {
+    this.ruleSet = ruleSet;
+    this.rulesProvider = rulesProvider;
+    this.inner = inner;
+    this.name = inner.name;
+  }
+
+  // The chain comes first for budget checks; the rules are listed so calls they kept are not seen as stale
+  getModelInfo(mode: AnalysisInputMode): AnalysisModelInfo[] {
+    return [...this.inner.getModelInfo(mode), ...this.rulesProvider.getModelInfo(mode)];
+  }
+
+  supportsLargeAudio(): boolean {
+    return this.inner.supportsLargeAudio?.() ?? false;
+  }
+
+  async analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult> {
+    const transcriptText = input.transcriptText ?? (await loadTranscriptText(input.audioPath))?.text;
+    if (!transcriptText) {
+      console.log(`🚦 Rules prefilter: no transcript for ${path.basename(input.audioPath)}; sending to ${this.inner.name}`);
+      return this.inner.analyzeTranscription(input);
+    }
+
+    const triggers = matchTagRules(this.ruleSet, transcriptText).filter(m => m.rule.prefilter !== false);
+    if (triggers.length > 0) {
+      console.log(`🚦 Rules prefilter: matched ${triggers.map(m => m.rule.value).join(', ')}; sending to ${this.inner.name}`);
+      return this.inner.analyzeTranscription(input);
+    }
+
+    console.log('🚦 Rules prefilter: no rule matched; keeping the rule-based analysis');
+    const result = await this.rulesProvider.analyzeTranscription({ ...input, transcriptText });
+    return { ...result, provider: this.rulesProvider.name };
+  }
+}
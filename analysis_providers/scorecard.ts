@@ -0,0 +1,222 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ValidationOutcome } from './analysis-schema';
+import { AnalysisPrompt } from './prompt-registry';
+
+export interface RubricCriterion {
+  id: string;
+  description: string;
+  weight?: number; // Default: 1
+  pass_threshold?: number; // Default: the rubric's pass_threshold
+  evidence_required?: boolean; // A supporting quote is needed to pass. Default: true
+  required?: boolean; // Failing this criterion fails the call whatever the overall score. Default: false
+}
+
+export interface Rubric {
+  name: string;
+  description?: string;
+  pass_threshold?: number; // Overall weighted score needed to pass, 0-1. Default: 0.7
+  criteria: RubricCriterion[];
+}
+
+export interface CriterionScore {
+  id: string;
+  score: number | null; // null when the criterion did not apply to the call
+  weight: number;
+  passed: boolean | null;
+  quote: string;
+  note: string;
+}
+
+export interface Scorecard {
+  rubric: string;
+  rubric_hash: string;
+  agent: string;
+  overall_score: number | null;
+  passed: boolean | null;
+  criteria: CriterionScore[];
+  summary: string;
+}
+
+const DEFAULT_PASS_THRESHOLD = 0.7;
+
+export async function loadRubric(rubricPath: string): Promise<{ rubric: Rubric; prompt: AnalysisPrompt }> {
+  let rubric: Rubric;
+  try {
+    rubric = JSON.parse(await fs.readFile(rubricPath, 'utf8'));
+  } catch (error: unknown) {
+    throw new Error(`Could not read rubric ${rubricPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!rubric || !Array.isArray(rubric.criteria) || rubric.criteria.length === 0) {
+    throw new Error(`Rubric ${rubricPath} has no criteria`);
+  }
+  if (!isThreshold(rubric.pass_threshold)) {
+    throw new Error(`Rubric ${rubricPath} has an invalid pass_threshold ${JSON.stringify(rubric.pass_threshold)}: use a number from 0 to 1`);
+  }
+  const seen = new Set<string>();
+  for (const [i, c] of rubric.criteria.entries()) {
+    if (!c || typeof c.id !== 'string' || typeof c.description !== 'string') {
+      throw new Error(`Rubric criterion #${i + 1} in ${rubricPath} needs an "id" and a "description"`);
+    }
+    if (seen.has(c.id)) {
+      throw new Error(`Rubric ${rubricPath} has a duplicate criterion "${c.id}"`);
+    }
+    seen.add(c.id);
+    if (c.weight !== undefined && (typeof c.weight !== 'number' || !Number.isFinite(c.weight) || c.weight < 0)) {
+      throw new Error(`Rubric criterion "${c.id}" in ${rubricPath} has an invalid weight ${JSON.stringify(c.weight)}: use a number of 0 or more`);
+    }
+    if (!isThreshold(c.pass_threshold)) {
+      throw new Error(`Rubric criterion "${c.id}" in ${rubricPath} has an invalid pass_threshold ${JSON.stringify(c.pass_threshold)}: use a number from 0 to 1`);
+    }
+    for (const flag of ['evidence_required', 'required'] as const) {
+      if (c[flag] !== undefined && typeof c[flag] !== 'boolean') {
+        throw new Error(`Rubric criterion "${c.id}" in ${rubricPath}: "${flag}" must be true or false`);
+      }
+    }
+  }
+  if (rubric.criteria.reduce((sum, c) => sum + (c.weight ?? 1), 0) <= 0) {
+    throw new Error(`Rubric ${rubricPath} needs at least one criterion with a weight above 0`);
+  }
+  rubric.name = rubric.name || path.basename(rubricPath, path.extname(rubricPath));
+
+  const content = buildScorecardPrompt(rubric);
+  const prompt: AnalysisPrompt = {
+    name: `scorecard:${rubric.name}`,
+    source: path.resolve(rubricPath),
+    content,
+    hash: `sha256:${createHash('sha256').update(content).digest('hex')}`
+  };
+  return { rubric, prompt };
+}
+
+function isThreshold(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && value >= 0 && value <= 1);
+}
+
+/**
+ * Render the rubric into instructions for the analysis model.
+ */
+export function buildScorecardPrompt(rubric: Rubric): string {
+  const criteria = rubric.criteria.map(c => {
+    const evidence = c.evidence_required === false ? 'quote optional' : 'quote required';
+    return `- \`${c.id}\` (weight ${c.weight ?? 1}, ${evidence}${c.required ? ', must pass' : ''}): ${c.description}`;
+  });
+
+  return [
+    'You are a quality assurance reviewer for **SecondSutra.com** customer care calls.',
+    '',
+    `Score the **agent** in the following single call (audio or transcript) against the rubric "${rubric.name}"${rubric.description ? ` (${rubric.description})` : ''}.`,
+    '',
+    '### Criteria',
+    '',
+    ...criteria,
+    '',
+    '### Output JSON',
+    '',
+    '```',
+    '{',
+    '  "criteria": [',
+    '    { "id": "criterion id", "score": 0.0, "quote": "Verbatim words from the call that justify the score", "note": "One short sentence explaining the score" }',
+    '  ],',
+    '  "summary": "One or two sentences of coaching feedback for the agent"',
+    '}',
+    '```',
+    '',
+    '### Rules',
+    '',
+    '1. Return one entry per criterion, using exactly the ids listed above.',
+    '2. `score` is a number from 0 (not done) to 1 (done well). Use `null` only when the criterion could not apply to this call.',
+    '3. `quote` must be copied from the call (1–2 sentences). Use an empty string when there is no supporting quote.',
+    '4. Output **only JSON**, no commentary.'
+  ].join('\n');
+}
+
+export function validateScorecard(input: Record<string, any>, rubric: Rubric): ValidationOutcome {
+  const data: Record<string, any> = JSON.parse(JSON.stringify(input));
+  const errors: string[] = [];
+  const dropped: string[] = [];
+  const ids = new Set(rubric.criteria.map(c => c.id));
+
+  if (!Array.isArray(data.criteria)) {
+    errors.push('criteria must be an array');
+    data.criteria = [];
+  }
+
+  data.criteria = data.criteria.filter((item: any, i: number) => {
+    if (!item || typeof item !== 'object' || !ids.has(item.id)) {
+      errors.push(`criteria[${i}].id "${item?.id}" is not one of: ${[...ids].join(', ')}`);
+      dropped.push(`criteria: ${item?.id}`);
+      return false;
+    }
+    if (item.score !== null && (typeof item.score !== 'number' || item.score < 0 || item.score > 1)) {
+      errors.push(`criteria[${i}].score must be a number between 0 and 1 or null (got ${JSON.stringify(item.score)})`);
+      item.score = null;
+    }
+    if (item.quote !== undefined && typeof item.quote !== 'string') {
+      errors.push(`criteria[${i}].quote must be a string`);
+      item.quote = '';
+    }
+    return true;
+  });
+
+  for (const id of ids) {
+    if (!data.criteria.some((c: any) => c.id === id)) {
+      errors.push(`criteria is missing "${id}"`);
+    }
+  }
+  if (data.summary !== undefined && typeof data.summary !== 'string') {
+    errors.push('summary must be a string');
+    delete data.summary;
+  }
+
+  return { valid: errors.length === 0, errors, dropped, data };
+}
+
+/**
+ * Combine the model's per-criterion scores with the rubric's weights and
+ * thresholds. A criterion passes when its score reaches its threshold and,
+ * if evidence is required, a quote was given. Criteria scored `null` are left
+ * out of the weighted overall score. The call passes when the overall score
+ * reaches the rubric's threshold, no `required` criterion failed, and at
+ * least one scored criterion that needs evidence has a quote.
+ */
+export function buildScorecard(data: Record<string, any>, rubric: Rubric, rubricHash: string, agent: string): Scorecard {
+  const overallThreshold = rubric.pass_threshold ?? DEFAULT_PASS_THRESHOLD;
+  const criteria: CriterionScore[] = rubric.criteria.map(c => {
+    const reply = Array.isArray(data.criteria) ? data.criteria.find((r: any) => r?.id === c.id) : undefined;
+    const score = typeof reply?.score === 'number' ? reply.score : null;
+    const quote = typeof reply?.quote === 'string' ? reply.quote.trim() : '';
+    const threshold = c.pass_threshold ?? overallThreshold;
+    const hasEvidence = c.evidence_required === false || quote.length > 0;
+    return {
+      id: c.id,
+      score,
+      weight: c.weight ?? 1,
+      passed: score === null ? null : score >= threshold && hasEvidence,
+      quote,
+      note: typeof reply?.note === 'string' ? reply.note : ''
+    };
+  });
+
+  const scored = criteria.filter(c => c.score !== null && c.weight > 0);
+  const totalWeight = scored.reduce((sum, c) => sum + c.weight, 0);
+  const overall = totalWeight > 0
+    ? Math.round((scored.reduce((sum, c) => sum + c.score! * c.weight, 0) / totalWeight) * 100) / 100
+    : null;
+
+  const requiredFailed = criteria.some((c, i) => rubric.criteria[i].required && c.passed === false);
+  const needEvidence = criteria.filter((c, i) => c.score !== null && rubric.criteria[i].evidence_required !== false);
+  const noEvidence = needEvidence.length > 0 && needEvidence.every(c => c.quote.length === 0);
+
+  return {
+    rubric: rubric.name,
+    rubric_hash: rubricHash,
+    agent,
+    overall_score: overall,
+    passed: overall === null ? null : overall >= overallThreshold && !requiredFailed && !noEvidence,
+    criteria,
+    summary: typeof data.summary === 'string' ? data.summary : ''
+  };
+}
@@ -0,0 +1,103 @@
+import { AnalysisInput, AnalysisInputMode, AnalysisModelInfo, AnalysisProvider, AnalysisResult } from './base-analysis';
+import { ValidationOutcome } from './analysis-schema';
+import { ProviderCallError, ProviderUsage, usageOf } from '../cost_tracking/price-table';
+
+export interface ValidatingAnalysisConfig {
+  retries?: number; // Re-asks after an invalid response. Default: 2
+  validate: (data: Record<string, any>) => ValidationOutcome; // e.g. validateAnalysis() with the taxonomy
+}
+
+/**
+ * Validates every response (against the analysis schema and taxonomy, or a
+ * scorecard rubric) and re-asks the
+ * wrapped provider with the validation errors until it complies or the
+ * retries run out. A response that never parses as JSON is an error; one
+ * that parses but stays invalid is returned with off-taxonomy entries
+ * removed and `validation.valid` set to false. When re-asks run out or a
+ * re-ask fails, the parseable response with the fewest errors is kept.
+ */
+export class ValidatingAnalysisProvider implements AnalysisProvider {
+  name: string;
+  private inner: AnalysisProvider;
+  private config: Required<ValidatingAnalysisConfig>;
+
+  constructor(inner: AnalysisProvider, config: ValidatingAnalysisConfig) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.config = {
+      retries: Math.max(0, config.retries ?? 2),
+      validate: config.validate
+    };
+  }
+
+  getModelInfo(mode: AnalysisInputMode): AnalysisModelInfo[] {
+    return this.inner.getModelInfo(mode);
+  }
+
+  supportsLargeAudio(): boolean {
+    return this.inner.supportsLargeAudio?.() ?? false;
+  }
+
+  async analyzeTranscription(input: AnalysisInput): Promise<AnalysisResult> {
+    const maxAttempts = this.config.retries + 1;
+    let repair: AnalysisInput['repair'];
+    let best: AnalysisResult | null = null;
+    let lastErrors: string[] = [];
+    const usage: ProviderUsage[] = [];
+    let attempts = 0;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        console.log(`🔁 Re-asking ${this.inner.name} to fix ${lastErrors.length} schema error(s) (attempt ${attempt}/${maxAttempts})`);
+      }
+      let result: AnalysisResult;
+      try {
+        result = await this.inner.analyzeTranscription({ ...input, repair });
+      } catch (error: unknown) {
+        usage.push(...usageOf(error));
+        if (!best) {
+          throw usage.length > 0 ? new ProviderCallError(error instanceof Error ? error.message : String(error), usage) : error;
+        }
+        console.warn(`⚠️  Re-ask failed (${error instanceof Error ? error.message : String(error)}); keeping the best earlier response`);
+        break;
+      }
+      attempts = attempt;
+      usage.push(...(result.usage ?? []));
+      const rawResponse = result.rawResponse ?? JSON.stringify(result.metadata ?? {});
+      const data = result.metadata;
+
+      if (!data || 'raw_response' in data) {
+        lastErrors = ['Response is not a valid JSON object'];
+      } else {
+        const outcome = this.config.validate(data);
+        lastErrors = outcome.errors;
+        if (!best || outcome.errors.length < best.validation!.errors.length) {
+          best = {
+            ...result,
+            metadata: outcome.data,
+            summary: outcome.data.next_best_action || result.summary,
+            keyPoints: outcome.data.todo ?? result.keyPoints,
+            sentiment: outcome.data.sentiment,
+            usage: [...usage],
+            validation: { valid: outcome.valid, attempts: attempt, errors: outcome.errors, dropped: outcome.dropped }
+          };
+        }
+        if (outcome.valid) {
+          console.log(`✅ Analysis JSON passed schema validation${attempt > 1 ? ` after ${attempt} attempts` : ''}`);
+          return best;
+        }
+      }
+
+      console.warn(`⚠️  Schema validation failed: ${lastErrors.slice(0, 3).join('; ')}${lastErrors.length > 3 ? ` (+${lastErrors.length - 3} more)` : ''}`);
+      repair = { previousResponse: rawResponse, errors: lastErrors };
+    }
+
+    if (!best) {
+      throw new ProviderCallError(`${this.inner.name} returned no parseable JSON after ${maxAttempts} attempt(s)`, usage);
+    }
+
+    // Keep the parseable response with the fewest errors, cleaned, but mark it invalid
+    console.warn(`⚠️  Keeping analysis with ${best.validation!.errors.length} unresolved schema error(s)`);
+    return { ...best, usage, validation: { ...best.validation!, attempts } };
+  }
+}
@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AudioConverter, SilenceInterval } from './audio-converter';
+
+export interface AudioChunk {
+  index: number;
+  start: number; // seconds in the original recording
+  end: number;
+  path: string;
+}
+
+export interface AudioChunkerConfig {
+  chunkSeconds?: number; // Target chunk length. Default: 600
+  overlapSeconds?: number; // Audio shared by neighbouring chunks. Default: 5
+  searchWindowSeconds?: number; // How far before the target to look for a silence. Default: 60
+  silenceNoiseDb?: number; // Default: -30
+  minSilenceSeconds?: number; // Default: 0.5
+}
+
+export interface PlannedChunk {
+  index: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a chunk plan so that each cut lands in the middle of a silence close to
+ * the target length, and neighbouring chunks share `overlapSeconds` of audio.
+ * No chunk is longer than `maxChunkSeconds`.
+ */
+export function planChunks(
+  durationSeconds: number,
+  silences: SilenceInterval[],
+  chunkSeconds: number,
+  overlapSeconds: number,
+  searchWindowSeconds: number,
+  maxChunkSeconds: number = Infinity
+): PlannedChunk[] {
+  const chunks: PlannedChunk[] = [];
+  const window = Math.min(searchWindowSeconds, chunkSeconds / 2);
+  // Avoid a tiny tail chunk: fold anything shorter than this into the previous chunk
+  const minTail = Math.min(30, chunkSeconds / 4);
+  let start = 0;
+
+  while (start < durationSeconds) {
+    const target = start + chunkSeconds;
+    if (target >= durationSeconds || (target >= durationSeconds - minTail && durationSeconds - start <= maxChunkSeconds)) {
+      chunks.push({ index: chunks.length, start, end: durationSeconds });
+      break;
+    }
+
+    let cut = target;
+    let bestDistance = Infinity;
+    for (const silence of silences) {
+      const mid = (silence.start + silence.end) / 2;
+      if (mid < target - window || mid > target) continue;
+      const distance = target - mid;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        cut = mid;
+      }
+    }
+
+    chunks.push({ index: chunks.length, start, end: cut });
+    start = Math.max(cut - overlapSeconds, start + 1);
+  }
+
+  return chunks;
+}
+
+export class AudioChunker {
+  private converter: AudioConverter;
+  private config: Required<AudioChunkerConfig>;
+
+  constructor(converter: AudioConverter, config: AudioChunkerConfig = {}) {
+    this.converter = converter;
+    this.config = {
+      chunkSeconds: config.chunkSeconds ?? 600,
+      overlapSeconds: config.overlapSeconds ?? 5,
+      searchWindowSeconds: config.searchWindowSeconds ?? 60,
+      silenceNoiseDb: config.silenceNoiseDb ?? -30,
+      minSilenceSeconds: config.minSilenceSeconds ?? 0.5
+    };
+  }
+
+  get chunkSeconds(): number {
+    return this.config.chunkSeconds;
+  }
+
+  /**
+   * Cut the recording into WAV chunks in a fresh temp directory, none longer
+   * than `maxChunkSeconds` (the transcription service's limit, if it has one).
+   * Callers must pass the returned directory to cleanup().
+   */
+  async split(filePath: string, durationSeconds: number, maxChunkSeconds: number = Infinity): Promise<{ dir: string; chunks: AudioChunk[] }> {
+    const chunkSeconds = Math.min(this.config.chunkSeconds, maxChunkSeconds);
+    const overlapSeconds = Math.min(this.config.overlapSeconds, chunkSeconds / 4);
+    const silences = await this.converter.detectSilences(filePath, this.config.silenceNoiseDb, this.config.minSilenceSeconds);
+    const plan = planChunks(durationSeconds, silences, chunkSeconds, overlapSeconds, this.config.searchWindowSeconds, maxChunkSeconds);
+    console.log(`✂️  Splitting into ${plan.length} chunks of ~${chunkSeconds}s (overlap ${overlapSeconds}s)`);
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunks-'));
+    const chunks: AudioChunk[] = [];
+    for (const p of plan) {
+      const chunkPath = path.join(dir, `${path.basename(filePath, path.extname(filePath))}_chunk${String(p.index).padStart(3, '0')}.wav`);
+      await this.converter.extractSegment(filePath, p.start, p.end - p.start, chunkPath);
+      console.log(`   • Chunk ${p.index + 1}/${plan.length}: ${p.start.toFixed(1)}s → ${p.end.toFixed(1)}s`);
+      chunks.push({ ...p, path: chunkPath });
+    }
+    return { dir, chunks };
+  }
+
+  async cleanup(dir: string): Promise<void> {
+    try {
+      await fs.rm(dir, { recursive: true, force: true });
+      console.log(`🧹 Cleaned up chunk directory: ${dir}`);
+    } catch {
+      console.warn(`⚠️  Failed to clean up chunk directory: ${dir}`);
+    }
+  }
+}
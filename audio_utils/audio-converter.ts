@@ -8,6 +8,11 @@ export interface ConversionResult {
   buffer: Buffer;
 }
 
+export interface SilenceInterval {
+  start: number; // seconds
+  end: number;
+}
+
 export interface AudioConverterConfig {
   sampleRate?: number; // Default: 16000 (16kHz)
 }
@@ -51,6 +56,93 @@ export class AudioConverter {
     }
   }
 
+  /**
+   * Convert any ffmpeg-readable input to mono 16-bit PCM WAV.
+   * Uses the configured sample rate unless one is passed explicitly.
+   */
+  async convertToWav(inputPath: string, sampleRate: number = this.config.sampleRate): Promise<ConversionResult> {
+    const execAsync = promisify(exec);
+    const tempDir = require('os').tmpdir();
+    const wavPath = path.join(tempDir, `resampled_${Date.now()}_${path.basename(inputPath, path.extname(inputPath))}.wav`);
+
+    try {
+      const ffmpegCommand = `"${require('ffmpeg-static')}" -i "${inputPath}" -acodec pcm_s16le -ar ${sampleRate} -ac 1 -y "${wavPath}"`;
+
+      console.log(`🎵 Running FFmpeg resampling (${sampleRate}Hz): ${ffmpegCommand}`);
+
+      await execAsync(ffmpegCommand);
+      const wavBuffer = await fs.readFile(wavPath);
+
+      return {
+        wavPath,
+        buffer: wavBuffer
+      };
+    } catch (error) {
+      console.error(`❌ FFmpeg resampling failed:`, error);
+      throw new Error(`Failed to convert ${path.basename(inputPath)} to WAV: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Duration of any ffmpeg-readable file in seconds, or null if it cannot be read.
+   */
+  async getDurationSeconds(inputPath: string): Promise<number | null> {
+    const execAsync = promisify(exec);
+    try {
+      // ffmpeg exits non-zero without an output file, so read the banner from the error
+      await execAsync(`"${require('ffmpeg-static')}" -i "${inputPath}"`);
+      return null;
+    } catch (error: any) {
+      const output = String(error?.stderr ?? '');
+      const match = output.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+      if (!match) return null;
+      return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3]);
+    }
+  }
+
+  /**
+   * Find silent stretches using ffmpeg's silencedetect filter.
+   */
+  async detectSilences(inputPath: string, noiseDb: number = -30, minSilenceSeconds: number = 0.5): Promise<SilenceInterval[]> {
+    const execAsync = promisify(exec);
+    const ffmpegCommand = `"${require('ffmpeg-static')}" -hide_banner -nostats -i "${inputPath}" -af silencedetect=noise=${noiseDb}dB:d=${minSilenceSeconds} -f null -`;
+
+    console.log(`🔇 Detecting silences (${noiseDb}dB, ≥${minSilenceSeconds}s)...`);
+    const { stderr } = await execAsync(ffmpegCommand, { maxBuffer: 64 * 1024 * 1024 });
+
+    const silences: SilenceInterval[] = [];
+    let pendingStart: number | null = null;
+    for (const line of String(stderr).split(/\r?\n/)) {
+      const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+      if (startMatch) {
+        pendingStart = Math.max(0, parseFloat(startMatch[1]));
+        continue;
+      }
+      const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+      if (endMatch && pendingStart !== null) {
+        silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+        pendingStart = null;
+      }
+    }
+    console.log(`✅ Found ${silences.length} silent intervals`);
+    return silences;
+  }
+
+  /**
+   * Cut [startSeconds, startSeconds + durationSeconds) out of the input as mono PCM WAV.
+   */
+  async extractSegment(inputPath: string, startSeconds: number, durationSeconds: number, outputPath: string): Promise<string> {
+    const execAsync = promisify(exec);
+    const ffmpegCommand = `"${require('ffmpeg-static')}" -ss ${startSeconds.toFixed(3)} -t ${durationSeconds.toFixed(3)} -i "${inputPath}" -acodec pcm_s16le -ar ${this.config.sampleRate} -ac 1 -y "${outputPath}"`;
+
+    try {
+      await execAsync(ffmpegCommand);
+      return outputPath;
+    } catch (error) {
+      throw new Error(`Failed to extract audio segment at ${startSeconds.toFixed(1)}s: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   async cleanupTempFile(filePath: string): Promise<void> {
     try {
       await fs.unlink(filePath);
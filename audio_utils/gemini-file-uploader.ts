@@ -0,0 +1,95 @@
+import { FileState, GoogleAIFileManager } from '@google/generative-ai/server';
+import * as path from 'path';
+
+export type GeminiUploadMode = 'auto' | 'always' | 'never';
+
+export const GEMINI_UPLOAD_MODES: GeminiUploadMode[] = ['auto', 'always', 'never'];
+
+export interface GeminiFileUploaderConfig {
+  mode?: GeminiUploadMode; // 'auto' uploads files above inlineMaxMb. Default: 'auto'
+  inlineMaxMb?: number; // Largest file sent inline as base64. Default: 10
+  pollSeconds?: number; // Interval between processing-state checks. Default: 2
+  timeoutSeconds?: number; // Give up waiting for processing after this long. Default: 300
+}
+
+export interface UploadedFile {
+  name: string; // 'files/<id>', used to delete the file
+  uri: string;
+  mimeType: string;
+}
+
+/**
+ * Sends recordings to Gemini through the Files API instead of inline base64,
+ * which is capped at ~20 MB per request. The file is uploaded, polled until
+ * Gemini has finished processing it, referenced by URI in the request and
+ * deleted afterwards.
+ */
+export class GeminiFileUploader {
+  private fileManager: GoogleAIFileManager;
+  private config: Required<GeminiFileUploaderConfig>;
+
+  constructor(apiKey: string, config: GeminiFileUploaderConfig = {}) {
+    const mode = (config.mode ?? process.env.GEMINI_UPLOAD ?? 'auto') as GeminiUploadMode;
+    if (!GEMINI_UPLOAD_MODES.includes(mode)) {
+      throw new Error(`Unsupported GEMINI_UPLOAD: ${mode}. Use 'auto', 'always', or 'never'`);
+    }
+    const inlineMaxMb = parseFloat(String(config.inlineMaxMb ?? process.env.GEMINI_INLINE_MAX_MB ?? '10'));
+    this.fileManager = new GoogleAIFileManager(apiKey);
+    this.config = {
+      mode,
+      inlineMaxMb: isNaN(inlineMaxMb) || inlineMaxMb <= 0 ? 10 : inlineMaxMb,
+      pollSeconds: config.pollSeconds ?? 2,
+      timeoutSeconds: config.timeoutSeconds ?? 300
+    };
+  }
+
+  /**
+   * Whether uploads are enabled at all, i.e. recordings of any size can be sent.
+   */
+  static isEnabled(): boolean {
+    return (process.env.GEMINI_UPLOAD ?? 'auto') !== 'never';
+  }
+
+  shouldUpload(sizeBytes: number): boolean {
+    if (this.config.mode === 'never') return false;
+    if (this.config.mode === 'always') return true;
+    return sizeBytes > this.config.inlineMaxMb * 1024 * 1024;
+  }
+
+  async upload(filePath: string, mimeType: string): Promise<UploadedFile> {
+    console.log(`☁️  Uploading ${path.basename(filePath)} to the Gemini Files API...`);
+    const { file } = await this.fileManager.uploadFile(filePath, { mimeType, displayName: path.basename(filePath) });
+
+    let current = file;
+    const deadline = Date.now() + this.config.timeoutSeconds * 1000;
+    while (current.state === FileState.PROCESSING) {
+      if (Date.now() > deadline) {
+        await this.delete(file.name);
+        throw new Error(`Gemini did not finish processing ${file.name} within ${this.config.timeoutSeconds} seconds`);
+      }
+      console.log('⏳ Waiting for Gemini to process the upload...');
+      await new Promise(resolve => setTimeout(resolve, this.config.pollSeconds * 1000));
+      current = await this.fileManager.getFile(file.name);
+    }
+
+    if (current.state === FileState.FAILED) {
+      await this.delete(file.name);
+      throw new Error(`Gemini failed to process uploaded file ${file.name}: ${current.error?.message ?? 'unknown error'}`);
+    }
+
+    console.log(`✅ Uploaded as ${current.name}`);
+    return { name: current.name, uri: current.uri, mimeType: current.mimeType || mimeType };
+  }
+
+  /**
+   * Delete an uploaded file. Failures are only logged; Gemini expires files after 48 hours anyway.
+   */
+  async delete(name: string): Promise<void> {
+    try {
+      await this.fileManager.deleteFile(name);
+      console.log(`🧹 Deleted uploaded file ${name}`);
+    } catch (error: unknown) {
+      console.warn(`⚠️  Could not delete uploaded file ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
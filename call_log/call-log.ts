@@ -0,0 +1,247 @@
+import * as path from 'path';
+
+/**
+ * One row of a dialer/CRM call log export.
+ */
+export interface CallLogEntry {
+  line: number; // Line in the CSV (the header is line 1)
+  phoneNumber: string; // Normalised like recording phone numbers
+  rawPhoneNumber: string;
+  startTime: Date | null;
+  start: string; // As written in the log
+  direction?: string;
+  agent?: string;
+  disposition?: string;
+  customerId?: string;
+}
+
+export interface CallLogMatch {
+  entry: CallLogEntry;
+  offsetSeconds: number; // Recording timestamp minus log start time
+}
+
+/**
+ * A recording as the call log sees it: where it is, and the phone number
+ * and instant it is matched on.
+ */
+export interface CallLogRecording {
+  recording: string; // Path of the recording
+  phoneNumber: string;
+  timestamp: Date | null;
+  displayTimestamp: string; // For the unmatched report
+}
+
+/**
+ * A match that had competition: other rows within the tolerance of the
+ * recording, or other recordings within the tolerance of the row.
+ */
+export interface AmbiguousMatch {
+  recording: string;
+  match: CallLogMatch;
+  otherEntries: CallLogMatch[]; // Rows this recording could also have taken
+  otherRecordings: string[]; // Recordings that could also have taken this row
+}
+
+export interface UnmatchedRecording {
+  recording: string; // Path of the recording
+  phoneNumber: string;
+  timestamp: string;
+  reason: string;
+}
+
+export interface CallLogConfig {
+  toleranceSeconds?: number; // Max gap between log start time and recording timestamp. Default: 120
+}
+
+export type CallLogField = 'phone' | 'start' | 'direction' | 'agent' | 'disposition' | 'customerId';
+
+// Accepted header names (lowercase, with _ and - read as spaces)
+const COLUMN_ALIASES: Record<CallLogField, string[]> = {
+  phone: ['phone', 'phone number', 'number', 'msisdn', 'customer phone', 'contact number', 'remote number'],
+  start: ['start time', 'start', 'call start', 'started at', 'timestamp', 'date time', 'datetime', 'call time'],
+  direction: ['direction', 'call type', 'type'],
+  agent: ['agent', 'agent name', 'agent id', 'user'],
+  disposition: ['disposition', 'outcome', 'call result', 'result', 'status'],
+  customerId: ['customer id', 'customer', 'crm id', 'lead id', 'contact id']
+};
+
+/**
+ * A call log loaded from CSV, matched against recordings by phone number
+ * and start time. Each log row is used for at most one recording. `assign`
+ * matches a whole set of recordings at once, closest pairs first, so the
+ * order recordings are found in does not decide who gets a row; `match`
+ * then returns that assignment, and matches recordings outside the set
+ * against the rows still unused.
+ */
+export class CallLog {
+  readonly source: string;
+  readonly entries: CallLogEntry[];
+  readonly toleranceSeconds: number;
+  private byPhone = new Map<string, CallLogEntry[]>();
+  private used = new Map<CallLogEntry, string>(); // Row -> recording it was matched to
+  private matches = new Map<string, CallLogMatch | null>();
+  private unmatched = new Map<string, UnmatchedRecording>();
+  private ambiguous: AmbiguousMatch[] = [];
+
+  private constructor(source: string, entries: CallLogEntry[], config: CallLogConfig) {
+    this.source = source;
+    this.entries = entries;
+    this.toleranceSeconds = config.toleranceSeconds ?? 120;
+    for (const entry of entries) {
+      this.byPhone.set(entry.phoneNumber, [...(this.byPhone.get(entry.phoneNumber) ?? []), entry]);
+    }
+  }
+
+  /**
+   * Build a call log from parsed CSV. Phone numbers and start times are read
+   * with the same rules as recordings, so both sides compare as E.164 and
+   * instants.
+   */
+  static fromRows(
+    source: string,
+    headers: string[],
+    rows: string[][],
+    readers: { phone: (raw: string) => { phoneNumber: string; rawPhoneNumber: string }; time: (raw: string) => Date | null },
+    config: CallLogConfig = {}
+  ): CallLog {
+    // Spreadsheet exports often start with a UTF-8 byte order mark
+    const normalized = headers.map(h => h.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' '));
+    const column = (field: CallLogField) => {
+      for (const alias of COLUMN_ALIASES[field]) {
+        const idx = normalized.indexOf(alias);
+        if (idx >= 0) return idx;
+      }
+      return -1;
+    };
+    const columns = Object.fromEntries((Object.keys(COLUMN_ALIASES) as CallLogField[]).map(f => [f, column(f)])) as Record<CallLogField, number>;
+    if (columns.phone < 0 || columns.start < 0) {
+      throw new Error(`Call log ${source} needs a phone number and a start time column (found: ${headers.join(', ')})`);
+    }
+
+    const entries = rows.map((row, i): CallLogEntry => {
+      const cell = (field: CallLogField) => (columns[field] >= 0 ? (row[columns[field]] ?? '').trim() : '') || undefined;
+      const start = cell('start') ?? '';
+      return {
+        line: i + 2,
+        ...readers.phone(cell('phone') ?? ''),
+        startTime: readers.time(start),
+        start,
+        direction: cell('direction'),
+        agent: cell('agent'),
+        disposition: cell('disposition'),
+        customerId: cell('customerId')
+      };
+    });
+    return new CallLog(source, entries, config);
+  }
+
+  /**
+   * Match a set of recordings in one pass: every (recording, row) pair within
+   * the tolerance is considered, and pairs are taken smallest |offset| first
+   * while both sides are free. Recordings already matched are left as they are.
+   */
+  assign(recordings: CallLogRecording[]): void {
+    const pairs: Array<CallLogMatch & { recording: string }> = [];
+    const pending = new Map<string, CallLogRecording>();
+    for (const rec of recordings) {
+      if (this.matches.has(rec.recording) || pending.has(rec.recording)) continue;
+      const reason = this.unusable(rec);
+      if (reason) {
+        this.miss(rec, reason);
+        continue;
+      }
+      pending.set(rec.recording, rec);
+      pairs.push(...this.candidates(rec).map(c => ({ ...c, recording: rec.recording })));
+    }
+
+    pairs.sort((a, b) => Math.abs(a.offsetSeconds) - Math.abs(b.offsetSeconds) || a.recording.localeCompare(b.recording) || a.entry.line - b.entry.line);
+    for (const pair of pairs) {
+      if (this.matches.has(pair.recording) || this.used.has(pair.entry)) continue;
+      this.take(pair.recording, { entry: pair.entry, offsetSeconds: pair.offsetSeconds });
+    }
+
+    for (const rec of pending.values()) {
+      const own = pairs.filter(p => p.recording === rec.recording);
+      const match = this.matches.get(rec.recording);
+      if (!match) {
+        // Every row in reach went to a recording closer to it
+        this.miss(rec, own.length > 0
+          ? `Closest call (line ${own[0].entry.line}) went to ${path.basename(this.used.get(own[0].entry)!)}`
+          : `No call within ${this.toleranceSeconds}s`);
+        continue;
+      }
+      const otherEntries = own.filter(p => p.entry !== match.entry).map(({ entry, offsetSeconds }) => ({ entry, offsetSeconds }));
+      const otherRecordings = pairs.filter(p => p.entry === match.entry && p.recording !== rec.recording).map(p => p.recording);
+      if (otherEntries.length > 0 || otherRecordings.length > 0) {
+        this.ambiguous.push({ recording: rec.recording, match, otherEntries, otherRecordings });
+      }
+    }
+  }
+
+  /**
+   * Find the log row for a recording. Recordings given to `assign` get their
+   * assigned row; others take the closest unused row. The result is
+   * remembered per recording, so asking again (e.g. for the base folder's
+   * grouped JSON) returns the same row.
+   */
+  match(recording: string, phoneNumber: string, timestamp: Date | null, displayTimestamp: string): CallLogMatch | null {
+    if (this.matches.has(recording)) {
+      return this.matches.get(recording)!;
+    }
+
+    const rec: CallLogRecording = { recording, phoneNumber, timestamp, displayTimestamp };
+    const reason = this.unusable(rec);
+    if (reason) return this.miss(rec, reason);
+    const best = this.candidates(rec).sort((a, b) => Math.abs(a.offsetSeconds) - Math.abs(b.offsetSeconds))[0];
+    if (!best) return this.miss(rec, `No call within ${this.toleranceSeconds}s`);
+    return this.take(recording, best);
+  }
+
+  private unusable(rec: CallLogRecording): string | null {
+    if (!rec.phoneNumber || rec.phoneNumber === 'N/A') return 'No phone number';
+    if (!rec.timestamp) return 'No timestamp';
+    if (!this.byPhone.has(rec.phoneNumber)) return 'Phone number not in call log';
+    return null;
+  }
+
+  // Unused rows for the recording's phone number within the tolerance
+  private candidates(rec: CallLogRecording): CallLogMatch[] {
+    const candidates: CallLogMatch[] = [];
+    for (const entry of this.byPhone.get(rec.phoneNumber) ?? []) {
+      if (!entry.startTime || !rec.timestamp || this.used.has(entry)) continue;
+      const offsetSeconds = Math.round((rec.timestamp.getTime() - entry.startTime.getTime()) / 1000);
+      if (Math.abs(offsetSeconds) <= this.toleranceSeconds) {
+        candidates.push({ entry, offsetSeconds });
+      }
+    }
+    return candidates;
+  }
+
+  private take(recording: string, match: CallLogMatch): CallLogMatch {
+    this.used.set(match.entry, recording);
+    this.matches.set(recording, match);
+    return match;
+  }
+
+  private miss(rec: CallLogRecording, reason: string): null {
+    this.unmatched.set(rec.recording, { recording: rec.recording, phoneNumber: rec.phoneNumber, timestamp: rec.displayTimestamp, reason });
+    this.matches.set(rec.recording, null);
+    return null;
+  }
+
+  get matchedCount(): number {
+    return this.used.size;
+  }
+
+  unmatchedRecordings(): UnmatchedRecording[] {
+    return [...this.unmatched.values()];
+  }
+
+  ambiguousMatches(): AmbiguousMatch[] {
+    return [...this.ambiguous];
+  }
+
+  unmatchedEntries(): CallLogEntry[] {
+    return this.entries.filter(e => !this.used.has(e));
+  }
+}
@@ -0,0 +1,146 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Billable usage of one provider request, as reported by the provider or
+ * metered from the audio duration.
+ */
+export interface ProviderUsage {
+  provider: string;
+  model?: string;
+  audioSeconds?: number;
+  inputTokens?: number;
+  audioInputTokens?: number; // Part of inputTokens that was audio, for services that price it separately
+  outputTokens?: number;
+}
+
+/**
+ * A provider call that failed after making billable requests. Fallback
+ * chains, chunking and re-asks throw it with everything spent so far, so
+ * failed files still count towards costs.csv and the budget.
+ */
+export class ProviderCallError extends Error {
+  readonly usage: ProviderUsage[];
+
+  constructor(message: string, usage: ProviderUsage[]) {
+    super(message);
+    this.name = 'ProviderCallError';
+    this.usage = usage;
+  }
+}
+
+/**
+ * Billable requests made before `error` was thrown (none for other errors).
+ */
+export function usageOf(error: unknown): ProviderUsage[] {
+  return error instanceof ProviderCallError ? error.usage : [];
+}
+
+export interface PriceEntry {
+  per_audio_minute?: number;
+  per_million_input_tokens?: number; // Text (and, without an audio price, all) input
+  per_million_audio_input_tokens?: number; // Default: per_million_input_tokens
+  per_million_output_tokens?: number;
+}
+
+export interface PriceTableFile {
+  currency?: string; // Default: 'USD'
+  prices: Record<string, PriceEntry>; // Keyed by '<provider>/<model>' or '<provider>'
+}
+
+/**
+ * Prices per provider, read from a JSON price table (the bundled
+ * `cost_tracking/prices.json` unless --price-table says otherwise). A
+ * `<provider>/<model>` entry wins over a plain `<provider>` entry.
+ */
+export class PriceTable {
+  readonly currency: string;
+  readonly source: string;
+  private prices: Record<string, PriceEntry>;
+
+  private constructor(source: string, file: PriceTableFile) {
+    this.source = source;
+    this.currency = file.currency || 'USD';
+    this.prices = file.prices;
+  }
+
+  static async load(tablePath: string): Promise<PriceTable> {
+    let file: PriceTableFile;
+    try {
+      file = JSON.parse(await fs.readFile(tablePath, 'utf8'));
+    } catch (error: unknown) {
+      throw new Error(`Could not read price table ${tablePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!file || typeof file.prices !== 'object' || file.prices === null) {
+      throw new Error(`Price table ${tablePath} needs a "prices" object`);
+    }
+    for (const [key, entry] of Object.entries(file.prices)) {
+      for (const [field, value] of Object.entries(entry ?? {})) {
+        if (typeof value !== 'number' || value < 0) {
+          throw new Error(`Price table ${tablePath}: ${key}.${field} must be a non-negative number`);
+        }
+      }
+    }
+    return new PriceTable(path.resolve(tablePath), file);
+  }
+
+  find(provider: string, model?: string): PriceEntry | null {
+    if (model && this.prices[`${provider}/${model}`]) return this.prices[`${provider}/${model}`];
+    return this.prices[provider] ?? null;
+  }
+
+  /**
+   * Cost of one request, or null when the provider/model has no price.
+   */
+  cost(usage: ProviderUsage): number | null {
+    const price = this.find(usage.provider, usage.model);
+    if (!price) return null;
+    const audioTokens = Math.min(usage.audioInputTokens ?? 0, usage.inputTokens ?? 0);
+    const textTokens = (usage.inputTokens ?? 0) - audioTokens;
+    return (price.per_audio_minute ?? 0) * ((usage.audioSeconds ?? 0) / 60)
+      + (price.per_million_input_tokens ?? 0) * (textTokens / 1_000_000)
+      + (price.per_million_audio_input_tokens ?? price.per_million_input_tokens ?? 0) * (audioTokens / 1_000_000)
+      + (price.per_million_output_tokens ?? 0) * ((usage.outputTokens ?? 0) / 1_000_000);
+  }
+
+  /**
+   * Up-front cost of sending `audioSeconds` of audio, for providers billed
+   * per minute. Token-billed providers return null; their cost is only known
+   * after the request.
+   */
+  estimateAudioCost(provider: string, model: string | undefined, audioSeconds: number): number | null {
+    const price = this.find(provider, model);
+    return price?.per_audio_minute !== undefined ? price.per_audio_minute * (audioSeconds / 60) : null;
+  }
+}
+
+/**
+ * Usage of a Gemini request from its `usageMetadata`. Audio prompt tokens
+ * cost more than text ones, so they are split out by modality.
+ */
+export function geminiUsage(provider: string, model: string, usageMetadata: unknown): ProviderUsage {
+  const meta = (usageMetadata ?? {}) as {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    promptTokensDetails?: Array<{ modality?: string; tokenCount?: number }>;
+  };
+  const audioInputTokens = (meta.promptTokensDetails ?? [])
+    .filter(d => d.modality === 'AUDIO')
+    .reduce((sum, d) => sum + (d.tokenCount ?? 0), 0);
+  return {
+    provider,
+    model,
+    inputTokens: meta.promptTokenCount,
+    audioInputTokens: audioInputTokens || undefined,
+    outputTokens: meta.candidatesTokenCount
+  };
+}
+
+/**
+ * Usage of a service billed by audio length, from an `HH:MM:SS` duration.
+ */
+export function meterAudio(provider: string, duration: string, model?: string): ProviderUsage {
+  const match = /^(\d+):(\d{2}):(\d{2})/.exec(duration || '');
+  const audioSeconds = match ? parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10) : 0;
+  return { provider, model, audioSeconds };
+}
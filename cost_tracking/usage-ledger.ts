@@ -0,0 +1,138 @@
+import { PriceTable, ProviderUsage } from './price-table';
+
+/**
+ * Usage of one file and stage, stored in `processing_state.json` and in the
+ * analysis provenance.
+ */
+export interface UsageSummary {
+  requests: number;
+  audio_seconds: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number; // Priced requests only
+  currency: string;
+  unpriced?: string[]; // Providers/models missing from the price table
+}
+
+export interface UsageEntry {
+  folder: string;
+  filename: string;
+  stage: string;
+  usage: ProviderUsage;
+  cost: number | null;
+}
+
+export interface BudgetConfig {
+  maxCost?: number; // In the price table's currency
+  maxMinutes?: number; // Audio minutes sent to providers
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Running record of every billable request in this run. Prices each request
+ * with the price table and refuses to start a file whose expected cost or
+ * audio minutes would take the run past --max-cost / --max-minutes.
+ */
+export class UsageLedger {
+  readonly runId: string;
+  readonly prices: PriceTable;
+  private budget: BudgetConfig;
+  private entries: UsageEntry[] = [];
+  private fileCosts: Record<string, number[]> = {};
+  private warnedUnpriced = new Set<string>();
+
+  constructor(prices: PriceTable, budget: BudgetConfig = {}) {
+    this.runId = new Date().toISOString();
+    this.prices = prices;
+    this.budget = budget;
+  }
+
+  get totalCost(): number {
+    return this.entries.reduce((sum, e) => sum + (e.cost ?? 0), 0);
+  }
+
+  get totalMinutes(): number {
+    return this.entries.reduce((sum, e) => sum + (e.usage.audioSeconds ?? 0), 0) / 60;
+  }
+
+  getEntries(): UsageEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Throws BudgetExceededError when processing the next file could exceed a
+   * cap. Per-minute prices give the expected cost up front; for token-billed
+   * providers the average cost of earlier files in the same stage is used.
+   */
+  assertWithinBudget(next: { stage: string; provider: string; model?: string; audioSeconds: number | null }): void {
+    const { maxCost, maxMinutes } = this.budget;
+    const nextMinutes = (next.audioSeconds ?? 0) / 60;
+
+    if (maxMinutes !== undefined && this.totalMinutes + nextMinutes > maxMinutes) {
+      throw new BudgetExceededError(
+        `Audio minute budget reached: ${this.totalMinutes.toFixed(2)} of ${maxMinutes} minutes used, next file needs ${nextMinutes.toFixed(2)}`
+      );
+    }
+
+    if (maxCost !== undefined) {
+      const previous = this.fileCosts[next.stage] ?? [];
+      const estimate = next.audioSeconds !== null
+        ? this.prices.estimateAudioCost(next.provider, next.model, next.audioSeconds)
+        : null;
+      const expected = estimate ?? (previous.length > 0 ? previous.reduce((a, b) => a + b, 0) / previous.length : 0);
+      if (this.totalCost + expected > maxCost) {
+        throw new BudgetExceededError(
+          `Cost budget reached: ${this.formatCost(this.totalCost)} of ${this.formatCost(maxCost)} spent, next file expected to cost ${this.formatCost(expected)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Price and record the requests made for one file and stage.
+   */
+  record(folder: string, filename: string, stage: string, usages: ProviderUsage[]): UsageSummary {
+    const summary: UsageSummary = {
+      requests: usages.length,
+      audio_seconds: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost: 0,
+      currency: this.prices.currency
+    };
+    const unpriced = new Set<string>();
+
+    for (const usage of usages) {
+      const cost = this.prices.cost(usage);
+      const key = usage.model ? `${usage.provider}/${usage.model}` : usage.provider;
+      if (cost === null) {
+        unpriced.add(key);
+        if (!this.warnedUnpriced.has(key)) {
+          this.warnedUnpriced.add(key);
+          console.warn(`⚠️  No price for ${key} in ${this.prices.source}; its usage is recorded at no cost`);
+        }
+      }
+      this.entries.push({ folder, filename, stage, usage, cost });
+      summary.audio_seconds += usage.audioSeconds ?? 0;
+      summary.input_tokens += usage.inputTokens ?? 0;
+      summary.output_tokens += usage.outputTokens ?? 0;
+      summary.cost += cost ?? 0;
+    }
+
+    summary.audio_seconds = Math.round(summary.audio_seconds * 10) / 10;
+    summary.cost = Math.round(summary.cost * 1_000_000) / 1_000_000;
+    if (unpriced.size > 0) summary.unpriced = [...unpriced];
+    (this.fileCosts[stage] ??= []).push(summary.cost);
+    return summary;
+  }
+
+  formatCost(value: number): string {
+    return `${value.toFixed(4)} ${this.prices.currency}`;
+  }
+}
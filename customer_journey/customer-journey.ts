@@ -0,0 +1,182 @@
+/**
+ * One recording as seen by the customer view: filename metadata plus the
+ * parsed `_analysis.json`, when there is one.
+ */
+export interface CustomerCall {
+  filename: string;
+  folder: string; // Relative to the base folder
+  timestamp: string; // ISO 8601 with offset or 'N/A'
+  phoneNumber: string;
+  callType: string;
+  duration: string;
+  analysis: Record<string, any> | null;
+}
+
+export interface JourneyEntry {
+  timestamp: string;
+  filename: string;
+  folder: string;
+  callType: string;
+  duration: string;
+  analysed: boolean;
+  sentiment?: string;
+  payment_intent?: string;
+  concerns: string[];
+  todo: string[];
+  next_best_action?: string;
+  call_tags: string[];
+}
+
+export interface ConcernHistory {
+  concern: string;
+  first_raised: string;
+  last_raised: string;
+  calls: number;
+}
+
+/**
+ * Rolled-up state for a relationship manager about to call the customer back.
+ * "Latest" values come from the most recent analysed call; a concern is open
+ * when it was raised in that call.
+ */
+export interface CustomerState {
+  total_calls: number;
+  analysed_calls: number;
+  first_contact: string;
+  last_contact: string;
+  days_since_last_call: number | null;
+  latest_sentiment: string;
+  sentiment_trend: string[];
+  latest_payment_intent: string; // Last intent other than not_discussed
+  payment_intent_trend: string[];
+  open_concerns: string[];
+  open_todos: string[];
+  last_next_best_action: string;
+  folders: string[];
+}
+
+export interface CustomerJourney {
+  phoneNumber: string;
+  state: CustomerState;
+  concerns: ConcernHistory[];
+  calls: JourneyEntry[];
+}
+
+/**
+ * Group calls by phone number and order each customer's calls by timestamp.
+ * Calls without a usable phone number are left out. Customers are returned
+ * most recent contact first.
+ */
+export function buildCustomerJourneys(calls: CustomerCall[], now: Date = new Date()): CustomerJourney[] {
+  const byPhone = new Map<string, CustomerCall[]>();
+  for (const call of calls) {
+    const phone = (call.phoneNumber || '').trim();
+    if (!phone || phone === 'N/A') continue;
+    byPhone.set(phone, [...(byPhone.get(phone) ?? []), call]);
+  }
+
+  const journeys: CustomerJourney[] = [];
+  for (const [phoneNumber, customerCalls] of byPhone) {
+    // Unknown timestamps sort first so they never count as the latest contact
+    const entries = customerCalls
+      .map(toJourneyEntry)
+      .sort((a, b) => compareTimestamps(a.timestamp, b.timestamp) || a.filename.localeCompare(b.filename));
+    journeys.push({
+      phoneNumber,
+      state: rollUp(entries, now),
+      concerns: concernHistory(entries),
+      calls: entries
+    });
+  }
+
+  return journeys.sort((a, b) => compareTimestamps(b.state.last_contact, a.state.last_contact));
+}
+
+function toJourneyEntry(call: CustomerCall): JourneyEntry {
+  const a = call.analysis;
+  return {
+    timestamp: call.timestamp,
+    filename: call.filename,
+    folder: call.folder,
+    callType: call.callType,
+    duration: call.duration,
+    analysed: Boolean(a),
+    sentiment: typeof a?.sentiment === 'string' ? a.sentiment : undefined,
+    payment_intent: typeof a?.payment_intent === 'string' ? a.payment_intent : undefined,
+    concerns: Array.isArray(a?.concerns)
+      ? unique(a!.concerns.map((c: any) => String(c?.concern ?? '').trim()))
+      : [],
+    todo: Array.isArray(a?.todo) ? unique(a!.todo.map((t: any) => String(t ?? '').trim())) : [],
+    next_best_action: typeof a?.next_best_action === 'string' ? a.next_best_action : undefined,
+    call_tags: Array.isArray(a?.call_tags) ? unique(a!.call_tags.map((t: any) => String(t?.tag ?? '').trim())) : []
+  };
+}
+
+function rollUp(entries: JourneyEntry[], now: Date): CustomerState {
+  const analysed = entries.filter(e => e.analysed);
+  const latest = analysed[analysed.length - 1];
+  const dated = entries.filter(e => parseTimestamp(e.timestamp) !== null);
+  const lastContact = dated.length > 0 ? dated[dated.length - 1].timestamp : 'N/A';
+  const lastDate = parseTimestamp(lastContact);
+  const intents = analysed.map(e => e.payment_intent).filter((v): v is string => Boolean(v) && v !== 'not_discussed');
+
+  return {
+    total_calls: entries.length,
+    analysed_calls: analysed.length,
+    first_contact: dated.length > 0 ? dated[0].timestamp : 'N/A',
+    last_contact: lastContact,
+    days_since_last_call: lastDate ? Math.max(0, Math.floor((now.getTime() - lastDate.getTime()) / 86400000)) : null,
+    latest_sentiment: latest?.sentiment ?? '',
+    sentiment_trend: collapseRepeats(analysed.map(e => e.sentiment)),
+    latest_payment_intent: intents[intents.length - 1] ?? '',
+    payment_intent_trend: collapseRepeats(intents),
+    open_concerns: latest?.concerns ?? [],
+    open_todos: latest?.todo ?? [],
+    last_next_best_action: latest?.next_best_action ?? '',
+    folders: unique(entries.map(e => e.folder))
+  };
+}
+
+function concernHistory(entries: JourneyEntry[]): ConcernHistory[] {
+  const history = new Map<string, ConcernHistory>();
+  for (const entry of entries) {
+    for (const concern of entry.concerns) {
+      const current = history.get(concern);
+      if (current) {
+        current.last_raised = entry.timestamp;
+        current.calls++;
+      } else {
+        history.set(concern, { concern, first_raised: entry.timestamp, last_raised: entry.timestamp, calls: 1 });
+      }
+    }
+  }
+  return [...history.values()];
+}
+
+function parseTimestamp(ts: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}/.test(ts || '')) return null;
+  const date = new Date(ts.replace(' ', 'T'));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Compares instants, so timestamps with different offsets (e.g. across DST) still order correctly
+function compareTimestamps(a: string, b: string): number {
+  const timeA = parseTimestamp(a)?.getTime();
+  const timeB = parseTimestamp(b)?.getTime();
+  if (timeA === undefined || timeB === undefined) {
+    return (timeA === undefined ? 0 : 1) - (timeB === undefined ? 0 : 1);
+  }
+  return timeA - timeB;
+}
+
+function collapseRepeats(values: Array<string | undefined>): string[] {
+  const out: string[] = [];
+  for (const v of values) {
+    if (v && out[out.length - 1] !== v) out.push(v);
+  }
+  return out;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(v => v.length > 0))];
+}
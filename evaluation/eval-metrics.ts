@@ -0,0 +1,248 @@
+/**
+ * Labels compared by the eval harness, taken from an expected (human
+ * labelled) or predicted analysis JSON.
+ */
+export interface EvalLabels {
+  sentiment?: string;
+  payment_intent?: string;
+  call_tags: string[];
+  concerns: string[];
+}
+
+export interface EvalItem {
+  name: string; // Recording or transcript base name
+  expected: EvalLabels;
+  predicted: EvalLabels | null; // null when the provider failed
+  error?: string;
+  provider?: string;
+  model?: string;
+  quotes?: number; // Tag/concern quotes checked against the transcript
+  grounded?: number; // ... of which were found
+}
+
+export interface FieldAccuracy {
+  field: string;
+  correct: number;
+  total: number; // Items whose expected labels set the field
+  accuracy: number | null;
+}
+
+export interface LabelScore {
+  label: string;
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number | null; // null when the label was never predicted
+  recall: number | null; // null when the label was never expected
+  f1: number | null;
+}
+
+export interface EvalMetrics {
+  items: number;
+  failed: number;
+  fields: FieldAccuracy[];
+  call_tags: LabelScore[];
+  concerns: LabelScore[];
+  call_tags_micro: LabelScore;
+  concerns_micro: LabelScore;
+  quotes: number;
+  grounded: number;
+  grounding_rate: number | null; // null when no quote could be checked
+}
+
+export interface EvalRunConfig {
+  provider: string;
+  models: string[];
+  prompt: string;
+  prompt_hash: string;
+  analysis_input: string;
+  taxonomy_hash: string;
+}
+
+export interface EvalRun {
+  run_id: string;
+  label?: string;
+  created_at: string;
+  golden_set: string;
+  config: EvalRunConfig;
+  items: EvalItem[];
+  metrics: EvalMetrics;
+}
+
+export interface MetricChange {
+  name: string; // Field name, or '<field>:<label>' for tags and concerns
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface ItemChange {
+  name: string;
+  field: string;
+  expected: string;
+  before: string;
+  after: string;
+}
+
+export interface EvalDiff {
+  before: string; // run ids
+  after: string;
+  fields: MetricChange[]; // Accuracy
+  labels: MetricChange[]; // F1 per tag and concern, plus the micro averages
+  grounding: MetricChange;
+  items: ItemChange[]; // Items whose prediction changed
+}
+
+export const EVAL_FIELDS = ['sentiment', 'payment_intent'] as const;
+
+export function extractLabels(analysis: Record<string, any> | null | undefined): EvalLabels {
+  const list = (value: unknown, key: string): string[] => {
+    if (!Array.isArray(value)) return [];
+    const labels = value
+      .map(v => String(typeof v === 'string' ? v : v?.[key] ?? '').trim().toLowerCase())
+      .filter(v => v.length > 0);
+    return [...new Set(labels)].sort();
+  };
+  const scalar = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() !== '' ? value.trim().toLowerCase() : undefined;
+
+  return {
+    sentiment: scalar(analysis?.sentiment),
+    payment_intent: scalar(analysis?.payment_intent),
+    call_tags: list(analysis?.call_tags, 'tag'),
+    concerns: list(analysis?.concerns, 'concern')
+  };
+}
+
+/**
+ * Accuracy per field and precision/recall/F1 per tag and concern. A failed
+ * item counts as a miss: every expected label is a false negative and every
+ * expected field is wrong.
+ */
+export function computeMetrics(items: EvalItem[]): EvalMetrics {
+  const fields = EVAL_FIELDS.map((field): FieldAccuracy => {
+    const labelled = items.filter(i => i.expected[field] !== undefined);
+    const correct = labelled.filter(i => i.predicted?.[field] === i.expected[field]).length;
+    return { field, correct, total: labelled.length, accuracy: ratio(correct, labelled.length) };
+  });
+
+  const quotes = items.reduce((sum, i) => sum + (i.quotes ?? 0), 0);
+  const grounded = items.reduce((sum, i) => sum + (i.grounded ?? 0), 0);
+  const callTags = scoreLabels(items, 'call_tags');
+  const concerns = scoreLabels(items, 'concerns');
+
+  return {
+    items: items.length,
+    failed: items.filter(i => i.predicted === null).length,
+    fields,
+    call_tags: callTags,
+    concerns,
+    call_tags_micro: microAverage(callTags),
+    concerns_micro: microAverage(concerns),
+    quotes,
+    grounded,
+    grounding_rate: ratio(grounded, quotes)
+  };
+}
+
+/**
+ * Compare two runs over the same golden set: metric deltas plus every item
+ * whose predicted field, tags or concerns changed.
+ */
+export function diffRuns(before: EvalRun, after: EvalRun): EvalDiff {
+  const change = (name: string, a: number | null, b: number | null): MetricChange => ({
+    name,
+    before: a,
+    after: b,
+    delta: a !== null && b !== null ? round(b - a) : null
+  });
+
+  const fields = EVAL_FIELDS.map(field => change(
+    field,
+    before.metrics.fields.find(f => f.field === field)?.accuracy ?? null,
+    after.metrics.fields.find(f => f.field === field)?.accuracy ?? null
+  ));
+
+  const labels: MetricChange[] = [];
+  for (const key of ['call_tags', 'concerns'] as const) {
+    labels.push(change(`${key}:micro`, before.metrics[`${key}_micro`].f1, after.metrics[`${key}_micro`].f1));
+    const names = [...new Set([...before.metrics[key], ...after.metrics[key]].map(s => s.label))].sort();
+    for (const label of names) {
+      labels.push(change(
+        `${key}:${label}`,
+        before.metrics[key].find(s => s.label === label)?.f1 ?? null,
+        after.metrics[key].find(s => s.label === label)?.f1 ?? null
+      ));
+    }
+  }
+
+  const items: ItemChange[] = [];
+  const previous = new Map(before.items.map(i => [i.name, i]));
+  const show = (labels: EvalLabels | null | undefined, field: keyof EvalLabels): string => {
+    if (!labels) return '(failed)';
+    const value = labels[field];
+    return Array.isArray(value) ? value.join(' | ') : value ?? '';
+  };
+  for (const item of after.items) {
+    const old = previous.get(item.name);
+    if (!old) continue;
+    for (const field of [...EVAL_FIELDS, 'call_tags', 'concerns'] as const) {
+      const a = show(old.predicted, field);
+      const b = show(item.predicted, field);
+      if (a !== b) items.push({ name: item.name, field, expected: show(item.expected, field), before: a, after: b });
+    }
+  }
+
+  return {
+    before: before.run_id,
+    after: after.run_id,
+    fields,
+    labels,
+    grounding: change('grounding_rate', before.metrics.grounding_rate, after.metrics.grounding_rate),
+    items
+  };
+}
+
+function scoreLabels(items: EvalItem[], key: 'call_tags' | 'concerns'): LabelScore[] {
+  const labels = new Set<string>();
+  for (const item of items) {
+    item.expected[key].forEach(l => labels.add(l));
+    item.predicted?.[key].forEach(l => labels.add(l));
+  }
+
+  return [...labels].sort().map(label => {
+    let tp = 0;
+    let fp = 0;
+    let fn = 0;
+    for (const item of items) {
+      const expected = item.expected[key].includes(label);
+      const predicted = item.predicted?.[key].includes(label) ?? false;
+      if (expected && predicted) tp++;
+      else if (predicted) fp++;
+      else if (expected) fn++;
+    }
+    return score(label, tp, fp, fn);
+  });
+}
+
+function microAverage(scores: LabelScore[]): LabelScore {
+  const sum = (k: 'tp' | 'fp' | 'fn') => scores.reduce((total, s) => total + s[k], 0);
+  return score('micro', sum('tp'), sum('fp'), sum('fn'));
+}
+
+function score(label: string, tp: number, fp: number, fn: number): LabelScore {
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? round((2 * precision * recall) / (precision + recall))
+    : precision === 0 || recall === 0 ? 0 : null;
+  return { label, tp, fp, fn, precision, recall, f1 };
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? round(part / whole) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -26,17 +26,14 @@ export class ArexFilenameParser implements FilenameParser {
       if (tp1Match) {
         const ts = parseInt(tp1Match[1]);
         if (!isNaN(ts)) {
-          // Convert Unix timestamp to readable format
-          const date = new Date(ts);
-          timestamp = date.toISOString().slice(0, 19).replace('T', ' ');
+          // Epoch millis are an instant; the factory renders it in the business timezone
+          timestamp = new Date(ts).toISOString();
         }
       }
 
-      // Parse phone number (TP3) - handle numbers with + prefix
+      // Parse phone number (TP3) - kept as written; the factory normalises it
       if (tp3Match) {
-        const phoneStr = tp3Match[1];
-        // Remove + prefix if present and extract the actual number
-        phoneNumber = phoneStr.startsWith('+') ? phoneStr.substring(1) : phoneStr;
+        phoneNumber = tp3Match[1];
       }
 
       // Parse call type (TP4) - extract only the word after TP4 until next TP
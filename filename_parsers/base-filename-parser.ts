@@ -1,11 +1,20 @@
+export type MetadataField = 'timestamp' | 'phoneNumber' | 'callType' | 'agent' | 'disposition' | 'customerId';
+
 export interface FilenameMetadata {
-  timestamp: string;
-  phoneNumber: string;
+  timestamp: string; // ISO 8601 with the business timezone's offset, or 'N/A'
+  phoneNumber: string; // E.164 when valid (set by the factory); parsers return the number as written
+  rawPhoneNumber?: string; // The number as written in the file name
+  phoneValid?: boolean; // Whether phoneNumber could be normalised to E.164
   callType: string;
+  agent?: string; // Only set by parsers whose filenames carry the agent
+  disposition?: string; // Outcome recorded by the dialer/CRM
+  customerId?: string; // CRM customer or lead ID
+  sources?: Partial<Record<MetadataField, string>>; // Which source supplied each field: filename, sidecar, container, mtime or call-log
 }
 
 export interface FilenameParser {
   name: string;
+  timezone?: string; // IANA zone of wall-clock times in file names. Default: the business timezone
   canParse(filename: string): boolean;
   parse(filename: string): FilenameMetadata;
 }
@@ -25,8 +25,8 @@ export class CallRecordingFilenameParser implements FilenameParser {
         const dateStr = parts[1]; // YYMMDD
         const timeStr = parts[2]; // HHMMSS
 
-        // Normalize phone number
-        phoneNumber = phoneStr.startsWith('+') ? phoneStr.substring(1) : phoneStr;
+        // Kept as written; the factory normalises it
+        phoneNumber = phoneStr;
 
         // Parse date: YYMMDD to YYYY-MM-DD
         if (dateStr.length === 6) {
@@ -1,11 +1,32 @@
-import { FilenameParser, FilenameMetadata } from './base-filename-parser';
+import * as path from 'path';
+import { FilenameParser, FilenameMetadata, MetadataField } from './base-filename-parser';
 import { ArexFilenameParser } from './arex-filename-parser';
 import { SimpleFilenameParser } from './simple-filename-parser';
 import { CallRecordingFilenameParser } from './call-recording-filename-parser';
+import { isValidTimezone, normalizeCallTimestamp, parseCallTimestamp, systemTimezone } from './timezone-utils';
+import { PhoneNormalizer } from './phone-normalizer';
+import { METADATA_FIELDS, MetadataSource, PartialMetadata, createMetadataSource, normalizeDirection } from './metadata-sources';
+import { CallLog, CallLogRecording } from '../call_log/call-log';
+
+// Metadata found by one source, in the timezone its wall-clock times are in
+interface MetadataCandidate {
+  source: string;
+  label: string; // For warnings, e.g. "arex parser"
+  timezone: string;
+  fields: PartialMetadata;
+}
 
 export class FilenameParserFactory {
   private parsers: FilenameParser[] = [];
   private overrideParser: FilenameParser | null = null;
+  private businessTimezone = systemTimezone();
+  private phoneNormalizer = new PhoneNormalizer();
+  private sourceOrder: string[] = ['filename'];
+  private sources = new Map<string, MetadataSource>();
+  private callLog: CallLog | null = null;
+  // Metadata by resolved path, from the sources alone and with the call log applied; reading sources can spawn FFmpeg
+  private sourceMetadata = new Map<string, Promise<FilenameMetadata>>();
+  private fileMetadata = new Map<string, Promise<FilenameMetadata>>();
 
   constructor() {
     // Register available parsers
@@ -16,6 +37,98 @@ export class FilenameParserFactory {
 
   setOverrideParser(parser: FilenameParser | null): void {
     this.overrideParser = parser;
+    this.clearMetadataCache();
+  }
+
+  /**
+   * Set the timezone timestamps are reported and bucketed in. Wall-clock
+   * times in file names are read in their parser's timezone, which defaults
+   * to this one.
+   */
+  setBusinessTimezone(timeZone: string): void {
+    if (!isValidTimezone(timeZone)) {
+      throw new Error(`Unknown timezone: ${timeZone}`);
+    }
+    this.businessTimezone = timeZone;
+    this.clearMetadataCache();
+  }
+
+  getBusinessTimezone(): string {
+    return this.businessTimezone;
+  }
+
+  setPhoneNormalizer(normalizer: PhoneNormalizer): void {
+    this.phoneNormalizer = normalizer;
+    this.clearMetadataCache();
+  }
+
+  getPhoneNormalizer(): PhoneNormalizer {
+    return this.phoneNormalizer;
+  }
+
+  /**
+   * Set the timezone of the wall-clock times a registered parser reads.
+   */
+  setParserTimezone(name: string, timeZone: string): void {
+    const parser = this.parsers.find(p => p.name === name);
+    if (!parser) {
+      throw new Error(`Filename parser "${name}" not found. Available parsers: ${this.parsers.map(p => p.name).join(', ')}`);
+    }
+    if (!isValidTimezone(timeZone)) {
+      throw new Error(`Unknown timezone for filename parser "${name}": ${timeZone}`);
+    }
+    parser.timezone = timeZone;
+    this.clearMetadataCache();
+  }
+
+  /**
+   * Set which sources `parseFileMetadata` reads, highest precedence first:
+   * `filename`, `sidecar`, `container` and `mtime`. Sources left out are not read.
+   */
+  setMetadataSources(order: string[]): void {
+    if (order.length === 0) {
+      throw new Error('At least one metadata source is required');
+    }
+    const sources = new Map<string, MetadataSource>();
+    for (const name of order) {
+      if (name !== 'filename' && !sources.has(name)) {
+        sources.set(name, createMetadataSource(name));
+      }
+    }
+    this.sourceOrder = [...new Set(order)];
+    this.sources = sources;
+    this.clearMetadataCache();
+  }
+
+  getMetadataSources(): string[] {
+    return [...this.sourceOrder];
+  }
+
+  /**
+   * Match recordings read by `parseFileMetadata` against a dialer call log.
+   */
+  setCallLog(callLog: CallLog | null): void {
+    this.callLog = callLog;
+    this.clearMetadataCache();
+  }
+
+  getCallLog(): CallLog | null {
+    return this.callLog;
+  }
+
+  /**
+   * Match a set of recordings against the call log in one pass (see
+   * CallLog.assign), so later `parseFileMetadata` calls get the row that
+   * fits best across all of them rather than the first one found.
+   */
+  async matchCallLog(filePaths: string[]): Promise<void> {
+    if (!this.callLog) return;
+    const recordings: CallLogRecording[] = [];
+    for (const filePath of filePaths) {
+      const { phoneNumber, timestamp } = await this.cached(this.sourceMetadata, filePath, () => this.readFileMetadata(filePath));
+      recordings.push({ recording: path.resolve(filePath), phoneNumber, timestamp: parseCallTimestamp(timestamp, this.businessTimezone), displayTimestamp: timestamp });
+    }
+    this.callLog.assign(recordings);
   }
 
   /**
@@ -24,32 +137,149 @@ export class FilenameParserFactory {
    * If none can parse it, returns default values.
    */
   parseFilenameMetadata(filename: string): FilenameMetadata {
-    if (this.overrideParser) {
-      console.log(`📋 Using override filename parser: ${this.overrideParser.name}`);
-      return this.overrideParser.parse(filename);
+    const candidate = this.parseFilename(filename);
+    return this.merge(candidate ? [candidate] : [], filename);
+  }
+
+  /**
+   * Metadata for a recording on disk: each field comes from the first
+   * configured source that has it (see setMetadataSources). Sources are read
+   * once per file; later calls return a copy of the first result.
+   */
+  async parseFileMetadata(filePath: string): Promise<FilenameMetadata> {
+    const metadata = await this.cached(this.fileMetadata, filePath, async () => {
+      const fromSources = await this.cached(this.sourceMetadata, filePath, () => this.readFileMetadata(filePath));
+      const merged = { ...fromSources, sources: { ...fromSources.sources } };
+      if (this.callLog) {
+        this.applyCallLog(this.callLog, filePath, merged);
+      }
+      const fromOthers = Object.entries(merged.sources).filter(([, source]) => source !== 'filename');
+      if (fromOthers.length > 0) {
+        console.log(`🧩 Metadata: ${fromOthers.map(([field, source]) => `${field} from ${source}`).join(', ')}`);
+      }
+      return merged;
+    });
+    return { ...metadata, sources: { ...metadata.sources } };
+  }
+
+  private cached(cache: Map<string, Promise<FilenameMetadata>>, filePath: string, read: () => Promise<FilenameMetadata>): Promise<FilenameMetadata> {
+    const key = path.resolve(filePath);
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = read();
+      cache.set(key, pending);
+      pending.catch(() => cache.delete(key));
     }
+    return pending;
+  }
+
+  private clearMetadataCache(): void {
+    this.sourceMetadata.clear();
+    this.fileMetadata.clear();
+  }
 
-    for (const parser of this.parsers) {
-      if (parser.canParse(filename)) {
-        console.log(`📋 Using filename parser: ${parser.name}`);
-        return parser.parse(filename);
+  private async readFileMetadata(filePath: string): Promise<FilenameMetadata> {
+    const filename = path.basename(filePath);
+    const candidates: MetadataCandidate[] = [];
+    for (const name of this.sourceOrder) {
+      const source = this.sources.get(name);
+      if (!source) {
+        const candidate = this.parseFilename(filename);
+        if (candidate) candidates.push(candidate);
+        continue;
       }
+      candidates.push({ source: name, label: `${name} metadata`, timezone: this.businessTimezone, fields: await source.read(filePath) });
     }
+    return this.merge(candidates, filename);
+  }
 
-    console.warn(`⚠️  No suitable parser found for filename: ${filename}`);
+  private parseFilename(filename: string): MetadataCandidate | null {
+    let parser = this.overrideParser;
+    if (parser) {
+      console.log(`📋 Using override filename parser: ${parser.name}`);
+    } else {
+      parser = this.parsers.find(p => p.canParse(filename)) ?? null;
+      if (!parser) {
+        console.warn(`⚠️  No suitable parser found for filename: ${filename}`);
+        return null;
+      }
+      console.log(`📋 Using filename parser: ${parser.name}`);
+    }
+
+    const { timestamp, phoneNumber, callType, agent } = parser.parse(filename);
     return {
-      timestamp: 'N/A',
-      phoneNumber: 'N/A',
-      callType: 'N/A'
+      source: 'filename',
+      label: `${parser.name} parser`,
+      timezone: parser.timezone ?? this.businessTimezone,
+      fields: { timestamp, phoneNumber, callType, agent }
     };
   }
 
+  // First usable value per field; timestamps to the business timezone, phone numbers to E.164
+  private merge(candidates: MetadataCandidate[], filename: string): FilenameMetadata {
+    const metadata: FilenameMetadata = { timestamp: 'N/A', phoneNumber: 'N/A', callType: 'N/A', sources: {} };
+    for (const field of METADATA_FIELDS) {
+      for (const candidate of candidates) {
+        const value = candidate.fields[field]?.trim();
+        if (!value || value === 'N/A') continue;
+        if (field === 'timestamp') {
+          const timestamp = normalizeCallTimestamp(value, candidate.timezone, this.businessTimezone);
+          if (timestamp === null) {
+            console.warn(`⚠️  Unreadable timestamp "${value}" from ${candidate.label}: ${filename}`);
+            continue;
+          }
+          metadata.timestamp = timestamp;
+        } else {
+          metadata[field] = value;
+        }
+        metadata.sources![field] = candidate.source;
+        break;
+      }
+    }
+    return { ...metadata, ...this.phoneNormalizer.normalize(metadata.phoneNumber) };
+  }
+
+  // The call log adds disposition and customer ID, and agent and direction when no other source had them
+  private applyCallLog(callLog: CallLog, filePath: string, metadata: FilenameMetadata): void {
+    const match = callLog.match(path.resolve(filePath), metadata.phoneNumber, parseCallTimestamp(metadata.timestamp, this.businessTimezone), metadata.timestamp);
+    if (!match) return;
+    const { entry } = match;
+    const fields: Array<[MetadataField, string | undefined, boolean]> = [
+      ['agent', entry.agent, !metadata.agent],
+      ['callType', entry.direction && (normalizeDirection(entry.direction, true) ?? entry.direction), metadata.callType === 'N/A'],
+      ['disposition', entry.disposition, true],
+      ['customerId', entry.customerId, true]
+    ];
+    for (const [field, value, apply] of fields) {
+      if (!value || !apply) continue;
+      metadata[field] = value;
+      metadata.sources![field] = 'call-log';
+    }
+    console.log(`📇 Call log: line ${entry.line} (${match.offsetSeconds >= 0 ? '+' : ''}${match.offsetSeconds}s)`);
+  }
+
   /**
    * Add a new parser to the factory.
    * Parsers are tried in the order they were added.
    */
   addParser(parser: FilenameParser): void {
     this.parsers.push(parser);
+    this.clearMetadataCache();
+  }
+
+  /**
+   * Add parsers ahead of the ones already registered, keeping their order.
+   * Used for parsers declared in a filename parsers file, which take
+   * precedence over the built-ins.
+   */
+  prependParsers(parsers: FilenameParser[]): void {
+    for (const parser of parsers) {
+      if (this.parsers.some(p => p.name === parser.name)) {
+        throw new Error(`Filename parser "${parser.name}" is already registered`);
+      }
+    }
+    this.parsers.unshift(...parsers);
+    this.clearMetadataCache();
   }
 
   /**
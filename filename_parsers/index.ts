@@ -1,5 +1,9 @@
-export { FilenameMetadata, FilenameParser } from './base-filename-parser';
+export { FilenameMetadata, FilenameParser, MetadataField } from './base-filename-parser';
 export { ArexFilenameParser } from './arex-filename-parser';
 export { SimpleFilenameParser } from './simple-filename-parser';
 export { CallRecordingFilenameParser } from './call-recording-filename-parser';
+export { RegexFilenameParser, RegexParserDefinition, FilenameParsersFile, loadFilenameParserDefinitions } from './regex-filename-parser';
 export { FilenameParserFactory } from './filename-parser-factory';
+export { MetadataSource, PartialMetadata, METADATA_FIELDS, SidecarMetadataSource, ContainerTagsMetadataSource, FileMtimeMetadataSource, createMetadataSource } from './metadata-sources';
+export { PhoneNormalizer, PhoneNormalizerConfig, NormalizedPhone } from './phone-normalizer';
+export { formatWithOffset, hourInTimezone, isValidTimezone, normalizeCallTimestamp, parseCallTimestamp, systemTimezone } from './timezone-utils';
@@ -0,0 +1,213 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { MetadataField } from './base-filename-parser';
+
+export const METADATA_FIELDS: MetadataField[] = ['timestamp', 'phoneNumber', 'callType', 'agent', 'disposition', 'customerId'];
+
+export type PartialMetadata = Partial<Record<MetadataField, string>>;
+
+/**
+ * Somewhere besides the file name that can say when a call happened, with
+ * whom, in which direction and by which agent. Sources return only the
+ * fields they found; timestamps are ISO 8601 (with an offset when known) or
+ * wall-clock `YYYY-MM-DD HH:MM:SS`.
+ */
+export interface MetadataSource {
+  name: string;
+  read(filePath: string): Promise<PartialMetadata>;
+}
+
+// Keys recognised in sidecar files (compared lowercase, without _ - and spaces)
+const SIDECAR_KEYS: Record<MetadataField, string[]> = {
+  timestamp: ['timestamp', 'starttime', 'calltime', 'callstart', 'datetime', 'date', 'creationtime', 'created', 'recordedat'],
+  phoneNumber: ['phonenumber', 'phone', 'number', 'msisdn', 'remotenumber', 'contactnumber', 'caller', 'callee'],
+  callType: ['direction', 'calltype', 'type'],
+  agent: ['agent', 'agentname', 'agentid', 'user', 'username', 'extension'],
+  disposition: ['disposition', 'outcome', 'callresult'],
+  customerId: ['customerid', 'crmid', 'leadid', 'contactid']
+};
+
+/**
+ * `<name>.json` or `<name>.xml` written next to the recording by some
+ * recorders and dialers. Leaf values anywhere in the document are matched
+ * by key name.
+ */
+export class SidecarMetadataSource implements MetadataSource {
+  name = 'sidecar';
+
+  async read(filePath: string): Promise<PartialMetadata> {
+    const base = path.join(path.dirname(filePath), path.basename(filePath, path.extname(filePath)));
+    for (const ext of ['.json', '.xml']) {
+      let content: string;
+      try {
+        content = await fs.readFile(base + ext, 'utf8');
+      } catch {
+        continue;
+      }
+      try {
+        const values = ext === '.json' ? flattenJson(JSON.parse(content)) : flattenXml(content);
+        return pickFields(values);
+      } catch (error: unknown) {
+        console.warn(`⚠️  Could not read sidecar ${base + ext}: ${error instanceof Error ? error.message : String(error)}`);
+        return {};
+      }
+    }
+    return {};
+  }
+}
+
+/**
+ * Container tags read with FFmpeg (`-f ffmetadata`): `creation_time` for the
+ * timestamp; `artist` and `title` for the phone number, or the agent when
+ * `artist` is not a number; `comment` for the direction and phone number.
+ */
+export class ContainerTagsMetadataSource implements MetadataSource {
+  name = 'container';
+
+  async read(filePath: string): Promise<PartialMetadata> {
+    const execFileAsync = promisify(execFile);
+    let tags: Map<string, string>;
+    try {
+      // No shell: this runs on every recording in a scanned folder, whatever its name
+      const { stdout } = await execFileAsync(require('ffmpeg-static'), ['-v', 'error', '-i', filePath, '-f', 'ffmetadata', '-'], { maxBuffer: 1024 * 1024 });
+      tags = parseFfmetadata(stdout);
+    } catch {
+      return {};
+    }
+
+    const found: PartialMetadata = {};
+    const creation = tags.get('creation_time') ?? tags.get('date');
+    if (creation && /^\d{4}-\d{2}-\d{2}/.test(creation)) {
+      found.timestamp = creation;
+    }
+    const artist = tags.get('artist');
+    const phone = [artist, tags.get('title'), tags.get('comment')].map(findPhone).find(Boolean);
+    if (phone) {
+      found.phoneNumber = phone;
+    }
+    if (artist && !findPhone(artist)) {
+      found.agent = artist;
+    }
+    const direction = normalizeDirection(tags.get('comment') ?? '', false);
+    if (direction) {
+      found.callType = direction;
+    }
+    return found;
+  }
+}
+
+/**
+ * The file's modification time. Copying recordings usually resets it, so it
+ * comes last by default.
+ */
+export class FileMtimeMetadataSource implements MetadataSource {
+  name = 'mtime';
+
+  async read(filePath: string): Promise<PartialMetadata> {
+    try {
+      return { timestamp: (await fs.stat(filePath)).mtime.toISOString() };
+    } catch {
+      return {};
+    }
+  }
+}
+
+export function createMetadataSource(name: string): MetadataSource {
+  switch (name) {
+    case 'sidecar':
+      return new SidecarMetadataSource();
+    case 'container':
+      return new ContainerTagsMetadataSource();
+    case 'mtime':
+      return new FileMtimeMetadataSource();
+    default:
+      throw new Error(`Unsupported metadata source: ${name}. Use 'filename', 'sidecar', 'container', or 'mtime'`);
+  }
+}
+
+function pickFields(values: Array<[string, string]>): PartialMetadata {
+  const found: PartialMetadata = {};
+  for (const field of METADATA_FIELDS) {
+    for (const key of SIDECAR_KEYS[field]) {
+      const match = values.find(([k, v]) => k.toLowerCase().replace(/[\s_-]/g, '') === key && v.trim() !== '');
+      if (!match) continue;
+      const value = match[1].trim();
+      if (field === 'timestamp') {
+        found.timestamp = toTimestamp(value);
+      } else if (field === 'callType') {
+        found.callType = normalizeDirection(value, true) ?? value;
+      } else {
+        found[field] = value;
+      }
+      break;
+    }
+  }
+  return found;
+}
+
+function flattenJson(value: unknown, key = '', out: Array<[string, string]> = []): Array<[string, string]> {
+  if (value === null || value === undefined) return out;
+  if (Array.isArray(value)) {
+    value.forEach(v => flattenJson(v, key, out));
+  } else if (typeof value === 'object') {
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) flattenJson(v, k, out);
+  } else if (key) {
+    out.push([key, String(value)]);
+  }
+  return out;
+}
+
+// Leaf elements and attributes only; enough for the flat files recorders write
+function flattenXml(content: string): Array<[string, string]> {
+  const decode = (s: string) => s.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+  const out: Array<[string, string]> = [];
+  for (const m of content.matchAll(/<([\w.:-]+)(?:\s[^>]*)?>([^<]*)<\/\1>/g)) {
+    out.push([m[1].replace(/^.*:/, ''), decode(m[2])]);
+  }
+  for (const m of content.matchAll(/\s([\w.:-]+)="([^"]*)"/g)) {
+    out.push([m[1].replace(/^.*:/, ''), decode(m[2])]);
+  }
+  if (out.length === 0 && !/<[\w]/.test(content)) {
+    throw new Error('not an XML document');
+  }
+  return out;
+}
+
+function parseFfmetadata(output: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const line of output.split(/\r?\n/)) {
+    if (line.startsWith('[')) break; // Stream and chapter sections follow the global tags
+    if (line.startsWith(';') || !line.includes('=')) continue;
+    const eq = line.search(/(?<!\\)=/);
+    const key = line.slice(0, eq).trim().toLowerCase();
+    const value = line.slice(eq + 1).replace(/\\([=;#\\])/g, '$1').trim();
+    if (key && value) tags.set(key, value);
+  }
+  return tags;
+}
+
+// At least 7 digits, and not a date such as 2025-11-07
+function findPhone(value: string | undefined): string | undefined {
+  return [...(value ?? '').matchAll(/\+?\d[\d\s-]{5,}\d/g)]
+    .map(m => m[0])
+    .find(v => v.replace(/\D/g, '').length >= 7 && !/^\d{4}-\d{2}-\d{2}/.test(v));
+}
+
+// 'incoming' or 'outgoing' from words such as inbound or dialed; bare in/out only when allowShort
+export function normalizeDirection(value: string, allowShort: boolean): string | undefined {
+  const v = value.trim().toLowerCase();
+  if (/\b(incoming|inbound|received)\b/.test(v) || (allowShort && v === 'in')) return 'incoming';
+  if (/\b(outgoing|outbound|dialed|dialled)\b/.test(v) || (allowShort && v === 'out')) return 'outgoing';
+  return undefined;
+}
+
+// Epoch seconds or millis become an instant; anything else is passed on as written
+function toTimestamp(value: string): string {
+  if (/^\d{10}(\d{3})?$/.test(value)) {
+    const n = Number(value);
+    return new Date(value.length === 13 ? n : n * 1000).toISOString();
+  }
+  return value;
+}
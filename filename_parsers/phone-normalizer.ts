@@ -0,0 +1,81 @@
+export interface PhoneNormalizerConfig {
+  defaultCountryCode?: string; // Added to national numbers. Default: 91
+  nationalNumberLength?: number; // Digits after the country code for the default country (0 = don't check). Default: 10
+  trunkPrefix?: string; // Dialled before national numbers, e.g. "0" in 08328633433. Default: 0
+}
+
+export interface NormalizedPhone {
+  phoneNumber: string; // E.164 (+918328633433) when valid, otherwise the digits as found, or 'N/A'
+  rawPhoneNumber: string; // As written in the file name
+  phoneValid: boolean;
+}
+
+/**
+ * Normalises phone numbers from file names to E.164 so the same customer is
+ * one identity whether a recorder wrote 918328633433, 8328633433,
+ * 08328633433 or +91 83286-33433.
+ */
+export class PhoneNormalizer {
+  private config: Required<PhoneNormalizerConfig>;
+
+  constructor(config: PhoneNormalizerConfig = {}) {
+    const countryCode = String(config.defaultCountryCode ?? process.env.DEFAULT_COUNTRY_CODE ?? '91').replace(/^\+/, '');
+    if (!/^\d{1,3}$/.test(countryCode)) {
+      throw new Error(`Invalid default country code: ${countryCode}. Use 1-3 digits, e.g. 91`);
+    }
+    const nationalLength = config.nationalNumberLength ?? parseInt(process.env.PHONE_NATIONAL_LENGTH || '10', 10);
+    this.config = {
+      defaultCountryCode: countryCode,
+      nationalNumberLength: isNaN(nationalLength) || nationalLength < 0 ? 10 : nationalLength,
+      trunkPrefix: config.trunkPrefix ?? process.env.PHONE_TRUNK_PREFIX ?? '0'
+    };
+  }
+
+  get defaultCountryCode(): string {
+    return this.config.defaultCountryCode;
+  }
+
+  normalize(raw: string | null | undefined): NormalizedPhone {
+    const rawPhoneNumber = (raw ?? '').trim();
+    const cleaned = rawPhoneNumber.replace(/[^+\d]/g, '');
+    const digitsOnly = cleaned.replace(/\+/g, '');
+    if (!rawPhoneNumber || rawPhoneNumber === 'N/A' || digitsOnly.length === 0) {
+      return { phoneNumber: 'N/A', rawPhoneNumber: rawPhoneNumber || 'N/A', phoneValid: false };
+    }
+
+    const e164 = this.toE164(cleaned);
+    return e164
+      ? { phoneNumber: e164, rawPhoneNumber, phoneValid: true }
+      : { phoneNumber: digitsOnly, rawPhoneNumber, phoneValid: false };
+  }
+
+  private toE164(cleaned: string): string | null {
+    const { defaultCountryCode: cc, nationalNumberLength: nationalLength, trunkPrefix } = this.config;
+
+    // Written in international form: +<cc><number> or 00<cc><number>
+    const international = cleaned.startsWith('+') ? cleaned.slice(1) : cleaned.startsWith('00') ? cleaned.slice(2) : null;
+    if (international !== null) {
+      return this.checked(international);
+    }
+
+    const national = trunkPrefix && cleaned.startsWith(trunkPrefix) ? cleaned.slice(trunkPrefix.length) : null;
+    if (national !== null) {
+      return this.checked(cc + national);
+    }
+    if (nationalLength > 0) {
+      if (cleaned.length === nationalLength) return this.checked(cc + cleaned);
+      if (cleaned.length === cc.length + nationalLength && cleaned.startsWith(cc)) return this.checked(cleaned);
+      return null;
+    }
+    // Without a national length, numbers not starting with the country code are taken as national
+    return this.checked(cleaned.startsWith(cc) ? cleaned : cc + cleaned);
+  }
+
+  // E.164 allows at most 15 digits; numbers in the default country must have the national length
+  private checked(digits: string): string | null {
+    const { defaultCountryCode: cc, nationalNumberLength: nationalLength } = this.config;
+    if (!/^[1-9]\d{7,14}$/.test(digits)) return null;
+    if (nationalLength > 0 && digits.startsWith(cc) && digits.length !== cc.length + nationalLength) return null;
+    return `+${digits}`;
+  }
+}
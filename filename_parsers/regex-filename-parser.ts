@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs';
+import { FilenameParser, FilenameMetadata } from './base-filename-parser';
+import { isRealWallClock, isValidTimezone } from './timezone-utils';
+
+/**
+ * One parser declared in a filename parsers file. `match` is tested against
+ * the file name without its extension; its named groups supply the fields:
+ * `phone`, `date`, `time`, `direction` and `agent`.
+ */
+export interface RegexParserDefinition {
+  name: string;
+  match: string;
+  flags?: string; // RegExp flags, e.g. "i"; not "g" or "y", which make matching stateful
+  dateFormat?: string; // Tokens YYYY, YY, MM, DD, HH, mm, ss, A (AM/PM); or "epoch" / "epoch_ms". Default: YYYY-MM-DD
+  timeFormat?: string; // Format of the `time` group. Default: HH:mm:ss
+  timezone?: string; // IANA zone of the wall-clock date/time in the name. Default: the business timezone
+  directions?: Record<string, string>; // Maps captured direction values, e.g. { "IN": "incoming" }
+  callType?: string; // Used when the pattern has no direction group
+}
+
+export interface FilenameParsersFile {
+  parsers: RegexParserDefinition[];
+}
+
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(?<year>\\d{4})',
+  YY: '(?<year2>\\d{2})',
+  MM: '(?<month>\\d{1,2})',
+  DD: '(?<day>\\d{1,2})',
+  HH: '(?<hour>\\d{1,2})',
+  mm: '(?<minute>\\d{1,2})',
+  ss: '(?<second>\\d{1,2})',
+  A: '(?<meridiem>[AaPp][Mm])'
+};
+
+/**
+ * Filename parser driven by a regular expression with named groups, so new
+ * dialer formats can be added in JSON instead of a new parser class.
+ */
+export class RegexFilenameParser implements FilenameParser {
+  name: string;
+  private pattern: RegExp;
+  private dateFormat: string;
+  private datePattern: RegExp | null;
+  private timePattern: RegExp;
+  timezone?: string;
+  private directions: Map<string, string>;
+  private callType: string;
+
+  constructor(definition: RegexParserDefinition) {
+    if (!definition || typeof definition.name !== 'string' || definition.name.trim() === '') {
+      throw new Error('Filename parser definition has no "name"');
+    }
+    this.name = definition.name;
+
+    if (/[gy]/.test(definition.flags ?? '')) {
+      throw new Error(`Filename parser "${this.name}" uses the "g" or "y" flag, which make matching depend on the previous file name`);
+    }
+    try {
+      this.pattern = new RegExp(definition.match, definition.flags);
+    } catch (error: unknown) {
+      throw new Error(`Filename parser "${this.name}" has an invalid match pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (definition.timezone !== undefined && !isValidTimezone(definition.timezone)) {
+      throw new Error(`Filename parser "${this.name}" has an unknown timezone: ${definition.timezone}`);
+    }
+    this.timezone = definition.timezone;
+
+    this.dateFormat = definition.dateFormat ?? 'YYYY-MM-DD';
+    this.datePattern = this.dateFormat === 'epoch' || this.dateFormat === 'epoch_ms' ? null : compileDateFormat(this.dateFormat);
+    this.timePattern = compileDateFormat(definition.timeFormat ?? 'HH:mm:ss');
+    this.directions = new Map(Object.entries(definition.directions ?? {}).map(([k, v]) => [k.toLowerCase(), v]));
+    this.callType = definition.callType ?? 'N/A';
+  }
+
+  canParse(filename: string): boolean {
+    return this.pattern.test(filename.replace(/\.[^.]+$/, ''));
+  }
+
+  parse(filename: string): FilenameMetadata {
+    const metadata: FilenameMetadata = { timestamp: 'N/A', phoneNumber: 'N/A', callType: this.callType };
+    const groups = filename.replace(/\.[^.]+$/, '').match(this.pattern)?.groups;
+    if (!groups) {
+      return metadata;
+    }
+
+    if (groups.phone) {
+      metadata.phoneNumber = groups.phone.replace(/[^+\d]/g, '') || 'N/A';
+    }
+    if (groups.direction) {
+      metadata.callType = this.directions.get(groups.direction.toLowerCase()) ?? groups.direction;
+    }
+    if (groups.agent?.trim()) {
+      metadata.agent = groups.agent.trim();
+    }
+    if (groups.date) {
+      const timestamp = this.parseTimestamp(groups.date, groups.time);
+      if (timestamp) {
+        metadata.timestamp = timestamp;
+      } else {
+        console.warn(`⚠️  Could not parse date "${groups.date}${groups.time ? ` ${groups.time}` : ''}" with ${this.name} parser: ${filename}`);
+      }
+    }
+
+    return metadata;
+  }
+
+  private parseTimestamp(date: string, time: string | undefined): string | null {
+    if (!this.datePattern) {
+      const value = Number(date);
+      const instant = new Date(this.dateFormat === 'epoch' ? value * 1000 : value);
+      return Number.isFinite(value) && !isNaN(instant.getTime()) ? instant.toISOString() : null;
+    }
+
+    const dateParts = this.datePattern.exec(date)?.groups;
+    const timeParts = time !== undefined ? this.timePattern.exec(time)?.groups : {};
+    if (!dateParts || !timeParts) return null;
+    // A dateFormat may carry the time too (e.g. "YYYYMMDDHHmmss" with no time group)
+    return wallClockFromParts({ ...dateParts, ...timeParts });
+  }
+}
+
+/**
+ * Read a filename parsers file (`{ "parsers": [...] }` or a bare array).
+ * Parsers are returned in file order.
+ */
+export async function loadFilenameParserDefinitions(filePath: string): Promise<RegexFilenameParser[]> {
+  let parsed: FilenameParsersFile | RegexParserDefinition[];
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error: unknown) {
+    throw new Error(`Could not read filename parsers ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const definitions = Array.isArray(parsed) ? parsed : parsed?.parsers;
+  if (!Array.isArray(definitions)) {
+    throw new Error(`Filename parsers file ${filePath} has no "parsers" array`);
+  }
+  return definitions.map((definition, i) => {
+    try {
+      return new RegexFilenameParser(definition);
+    } catch (error: unknown) {
+      throw new Error(`Filename parser #${i + 1} in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+/**
+ * Turn a date format such as "YYYYMMDD", "HHmmss" or "MM/DD/YYYY HH:mm A"
+ * into an anchored regex with named groups; other characters match literally.
+ */
+export function compileDateFormat(format: string): RegExp {
+  let source = '';
+  let rest = format;
+  while (rest.length > 0) {
+    const token = Object.keys(FORMAT_TOKENS).find(t => rest.startsWith(t));
+    if (token) {
+      source += FORMAT_TOKENS[token];
+      rest = rest.slice(token.length);
+    } else {
+      source += rest[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      rest = rest.slice(1);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Wall-clock "YYYY-MM-DD HH:MM:SS" from the groups of a compiled date format,
+ * or null for a date or time that does not exist. With an AM/PM group the
+ * hour is read on a 12-hour clock.
+ */
+export function wallClockFromParts(parts: Record<string, string | undefined>): string | null {
+  const year = parts.year ? Number(parts.year) : 2000 + Number(parts.year2 ?? 0);
+  const month = Number(parts.month ?? 1);
+  const day = Number(parts.day ?? 1);
+  let hour = Number(parts.hour ?? 0);
+  const minute = Number(parts.minute ?? 0);
+  const second = Number(parts.second ?? 0);
+  if (parts.meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (parts.meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  if (!isRealWallClock({ year, month, day, hour, minute, second })) return null;
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
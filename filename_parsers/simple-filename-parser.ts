@@ -27,9 +27,7 @@ export class SimpleFilenameParser implements FilenameParser {
       // First try the space-separated format: "<phone> YYYY-MM-DD HH-MM-SS"
       const spaceSeparatedPattern = baseName.match(/^([+]?[\d\s-]+?)\s+(\d{4}-\d{2}-\d{2})\s+(\d{2})-(\d{2})-(\d{2})$/);
       if (spaceSeparatedPattern) {
-        const rawPhone = spaceSeparatedPattern[1].replace(/[^+\d]/g, '');
-        const normalizedPhone = rawPhone.startsWith('+') ? rawPhone.slice(1) : rawPhone;
-        phoneNumber = normalizedPhone || 'N/A';
+        phoneNumber = spaceSeparatedPattern[1].replace(/[^+\d]/g, '') || 'N/A';
         timestamp = `${spaceSeparatedPattern[2]} ${spaceSeparatedPattern[3]}:${spaceSeparatedPattern[4]}:${spaceSeparatedPattern[5]}`;
         return { timestamp, phoneNumber, callType };
       }
@@ -37,9 +35,7 @@ export class SimpleFilenameParser implements FilenameParser {
       // Then try the compact format: "+918328633433-2511071507" -> YYMMDDHHMM
       const compactPattern = baseName.match(/^([+]?[\d]+)-(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
       if (compactPattern) {
-        const rawPhone = compactPattern[1];
-        const normalizedPhone = rawPhone.startsWith('+') ? rawPhone.slice(1) : rawPhone;
-        phoneNumber = normalizedPhone || 'N/A';
+        phoneNumber = compactPattern[1] || 'N/A';
 
         // Parse YYMMDDHHMM format
         const year = '20' + compactPattern[2]; // Add 20XX century
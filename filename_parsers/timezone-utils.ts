@@ -0,0 +1,137 @@
+/**
+ * Helpers for call timestamps. Parsers emit either an instant (ISO 8601 with
+ * `Z` or an offset, e.g. from epoch millis) or a wall-clock time
+ * (`YYYY-MM-DD HH:MM:SS`) in their source timezone. Both are normalised to
+ * ISO 8601 with the offset of the business timezone.
+ */
+
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const WALL_CLOCK = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/;
+const WITH_OFFSET = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function systemTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Parse a call timestamp. Timestamps without an offset are read as wall-clock
+ * time in `naiveTimezone`. Returns null for 'N/A' and anything unparseable.
+ */
+export function parseCallTimestamp(ts: string, naiveTimezone: string): Date | null {
+  const value = (ts || '').trim();
+  if (WITH_OFFSET.test(value)) {
+    const date = new Date(value.replace(' ', 'T'));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const m = value.match(WALL_CLOCK);
+  if (!m) return null;
+  const wallClock = {
+    year: Number(m[1]),
+    month: Number(m[2]),
+    day: Number(m[3]),
+    hour: Number(m[4]),
+    minute: Number(m[5]),
+    second: Number(m[6] ?? 0)
+  };
+  if (!isRealWallClock(wallClock)) {
+    return null;
+  }
+  return zonedTimeToDate(wallClock, naiveTimezone);
+}
+
+/**
+ * Whether the date and time exist on the calendar: 2025-02-31 or 24:00:00
+ * would otherwise roll over into the next month or day.
+ */
+export function isRealWallClock(wc: WallClock): boolean {
+  const date = new Date(Date.UTC(wc.year, wc.month - 1, wc.day, wc.hour, wc.minute, wc.second));
+  return date.getUTCFullYear() === wc.year
+    && date.getUTCMonth() === wc.month - 1
+    && date.getUTCDate() === wc.day
+    && date.getUTCHours() === wc.hour
+    && date.getUTCMinutes() === wc.minute
+    && date.getUTCSeconds() === wc.second;
+}
+
+/**
+ * ISO 8601 with the timezone's offset at that instant, e.g. `2025-11-07T15:07:01+05:30`.
+ */
+export function formatWithOffset(date: Date, timeZone: string): string {
+  const wc = wallClockIn(date, timeZone);
+  const offset = offsetMinutes(date, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return `${wc.year}-${pad(wc.month)}-${pad(wc.day)}T${pad(wc.hour)}:${pad(wc.minute)}:${pad(wc.second)}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/**
+ * Normalise a parser's timestamp to ISO 8601 in the business timezone.
+ * Returns null when the timestamp cannot be read; 'N/A' is passed through.
+ */
+export function normalizeCallTimestamp(ts: string, sourceTimezone: string, businessTimezone: string): string | null {
+  if (!ts || ts === 'N/A') return 'N/A';
+  const date = parseCallTimestamp(ts, sourceTimezone);
+  return date ? formatWithOffset(date, businessTimezone) : null;
+}
+
+export function hourInTimezone(date: Date, timeZone: string): number {
+  return wallClockIn(date, timeZone).hour;
+}
+
+function wallClockIn(date: Date, timeZone: string): WallClock {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map(p => [p.type, p.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  };
+}
+
+function offsetMinutes(date: Date, timeZone: string): number {
+  const wc = wallClockIn(date, timeZone);
+  const asUtc = Date.UTC(wc.year, wc.month - 1, wc.day, wc.hour, wc.minute, wc.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+function zonedTimeToDate(wc: WallClock, timeZone: string): Date {
+  const asUtc = Date.UTC(wc.year, wc.month - 1, wc.day, wc.hour, wc.minute, wc.second);
+  // The offset can differ on either side of a DST change, so check it at the first guess
+  const guess = asUtc - offsetMinutes(new Date(asUtc), timeZone) * 60000;
+  return new Date(asUtc - offsetMinutes(new Date(guess), timeZone) * 60000);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
@@ -11,10 +11,39 @@ import { GeminiProvider } from './transcript_providers/gemini-provider';
 import { SpeechmaticsProvider } from './transcript_providers/speechmatics-provider';
 import { GoogleProvider } from './transcript_providers/google-provider';
 import { WhisperProvider } from './transcript_providers/whisper-provider';
+import { LocalWhisperProvider } from './transcript_providers/local-whisper-provider';
+import { OpenAICompatibleProvider, CompatibleResponseFormat } from './transcript_providers/openai-compatible-provider';
+import { FallbackTranscriptionProvider } from './transcript_providers/fallback-provider';
+import { ChunkedTranscriptionProvider } from './transcript_providers/chunked-provider';
 import { AudioConverter } from './audio_utils/audio-converter';
-import { AnalysisProvider } from './analysis_providers/base-analysis';
+import { AudioChunker } from './audio_utils/audio-chunker';
+import { GeminiFileUploader } from './audio_utils/gemini-file-uploader';
+import { AnalysisInputMode, AnalysisProvider } from './analysis_providers/base-analysis';
+import { ANALYSIS_INPUT_MODES, loadAnalysisInput, loadTranscriptText } from './analysis_providers/analysis-input';
+import { GROUNDING_MODES, GroundingMode, groundAnalysis } from './analysis_providers/quote-grounding';
+import { TOOL_VERSION, buildProvenance, getStaleReason } from './analysis_providers/provenance';
 import { GeminiAnalysisProvider } from './analysis_providers/gemini-analysis';
+import { OpenAIAnalysisProvider } from './analysis_providers/openai-analysis';
+import { LocalLlmAnalysisProvider } from './analysis_providers/local-llm-analysis';
+import { loadTagRules, RulesAnalysisProvider, TagRuleSet } from './analysis_providers/rules-analysis';
+import { Taxonomy } from './analysis_providers/analysis-taxonomy';
+import { RulesPrefilterAnalysisProvider } from './analysis_providers/rules-prefilter';
+import { MockAnalysisProvider } from './analysis_providers/mock-analysis';
+import { FallbackAnalysisProvider } from './analysis_providers/fallback-analysis';
+import { ValidatingAnalysisProvider } from './analysis_providers/validating-analysis';
+import { Rubric, Scorecard, buildScorecard, loadRubric, validateScorecard } from './analysis_providers/scorecard';
+import { validateAnalysis, ValidationOutcome } from './analysis_providers/analysis-schema';
+import { AnalysisPrompt, PromptRegistry } from './analysis_providers/prompt-registry';
 import { FilenameParserFactory } from './filename_parsers/filename-parser-factory';
+import { compileDateFormat, loadFilenameParserDefinitions, wallClockFromParts } from './filename_parsers/regex-filename-parser';
+import { hourInTimezone, parseCallTimestamp } from './filename_parsers/timezone-utils';
+import { PhoneNormalizer } from './filename_parsers/phone-normalizer';
+import { CallLog } from './call_log/call-log';
+import { ProcessingStateStore, StageName, StageStatus } from './processing_state/processing-state';
+import { CustomerCall, CustomerJourney, buildCustomerJourneys } from './customer_journey/customer-journey';
+import { PriceTable, ProviderCallError, ProviderUsage, meterAudio, usageOf } from './cost_tracking/price-table';
+import { BudgetConfig, BudgetExceededError, UsageLedger, UsageSummary } from './cost_tracking/usage-ledger';
+import { EvalDiff, EvalItem, EvalMetrics, EvalRun, computeMetrics, diffRuns, extractLabels } from './evaluation/eval-metrics';
 
 // Load environment variables from .env file
 config();
@@ -22,6 +51,9 @@ config();
 // Create global filename parser factory instance
 const filenameParserFactory = new FilenameParserFactory();
 
+// Usage and cost of this run; set up by main() once the price table is loaded
+let usageLedger: UsageLedger | null = null;
+
 interface TranscribeOptions {
   model?: string;
   apiKey?: string;
@@ -34,7 +66,56 @@ interface TranscribeOptions {
   analysisMinKb?: number | string;
   analysisMaxMb?: number | string;
   analysisMinSeconds?: number | string;
+  analysisInput?: string;
+  prompt?: string;
+  promptRules?: string;
+  analysisRetries?: number | string;
+  grounding?: string;
+  groundingThreshold?: number | string;
   parser?: string;
+  filenameParsers?: string;
+  timezone?: string;
+  parserTimezones?: string;
+  defaultCountryCode?: string;
+  metadataSources?: string;
+  callLog?: string;
+  callLogTolerance?: number | string;
+  callLogDateFormat?: string;
+  sttBaseUrl?: string;
+  sttLanguage?: string;
+  sttPrompt?: string;
+  sttTemperature?: number | string;
+  sttResponseFormat?: string;
+  fallbackTimeout?: number | string;
+  chunk?: boolean;
+  chunkSeconds?: number | string;
+  chunkOverlap?: number | string;
+  chunkConcurrency?: number | string;
+  retryFailed?: boolean;
+  reanalyseStale?: boolean;
+  scorecard?: boolean | string;
+  priceTable?: string;
+  maxCost?: number | string;
+  maxMinutes?: number | string;
+  tagRules?: string;
+  rulesPrefilter?: boolean;
+  taxonomy?: string;
+}
+
+interface EvalOptions extends TranscribeOptions {
+  label?: string;
+  output?: string;
+  baseline?: string;
+}
+
+/**
+ * Everything collected across subfolders during summary generation and written at the base folder.
+ */
+interface SummaryCollector {
+  baseFolder: string;
+  rows: any[];
+  scorecards: Scorecard[];
+  calls: CustomerCall[];
 }
 
 const program = new Command();
@@ -42,7 +123,9 @@ const program = new Command();
 program
   .name('transcribe')
   .description('Transcribe audio/video files, generate summaries, and analyze audio files using various AI services')
-  .version('1.0.0')
+  .version(TOOL_VERSION)
+  // Subcommands such as `eval` reuse flags like -A; let them parse their own
+  .enablePositionalOptions()
   .argument('[folder]', 'Folder path to process', './input')
   .option('-m, --model <model>', 'Whisper model to use', 'whisper-1')
   .option('-k, --api-key <key>', 'OpenAI API key')
@@ -50,12 +133,45 @@ program
   .option('-s, --summary-only', 'Only generate CSV summary from existing transcripts')
   .option('-a, --analyse-only', 'Only perform analysis on audio files')
   .option('-o, --overview-only', 'Only generate overview stats from existing summary.csv files')
-  .option('-S, --service <service>', 'Transcription service to use: whisper, google, speechmatics, or gemini', 'whisper')
-  .option('-A, --analysis-service <service>', 'Analysis service to use: gemini', 'gemini')
+  .option('-S, --service <service>', 'Transcription service(s) to use: whisper, google, speechmatics, gemini, local-whisper, or openai-compatible. Comma-separate to try in order', 'whisper')
+  .option('-A, --analysis-service <service>', 'Analysis service(s) to use: gemini, openai, local-llm, rules, or mock. Comma-separate to try in order', 'gemini')
   .option('-K, --analysis-min-kb <kb>', 'Minimum file size (KB) for analysis', '1')
   .option('-M, --analysis-max-mb <mb>', 'Maximum file size (MB) for analysis', '2')
   .option('-N, --analysis-min-seconds <seconds>', 'Minimum duration (seconds) for analysis', '60')
-  .option('-P, --parser <parser>', 'Filename parser to use: arex, simple, call-recording (auto if not specified)')
+  .option('--analysis-input <mode>', 'What the analysis model receives: audio (upload the recording) or transcript (existing .txt / .transcript.json)')
+  .option('--prompt <name|path>', 'Analysis prompt for every recording: a bundled prompt name (default, f2f_profile_completion) or a file path')
+  .option('--prompt-rules <path>', 'JSON rules choosing a prompt per call type, folder, filename or earlier tag')
+  .option('--tag-rules <path>', 'Keyword/phrase/regex rules for the rules analysis service and --rules-prefilter (default: bundled rules.json)')
+  .option('--rules-prefilter', 'Only send calls to the analysis service when a tag rule matches; other calls keep the rule-based analysis')
+  .option('--taxonomy <path>', 'JSON taxonomy of call tags, concerns and todos used by prompts, validation and summary.csv (default: bundled taxonomy.json)')
+  .option('--analysis-retries <n>', 'Re-ask the analysis model up to n times when its JSON fails schema validation', '2')
+  .option('--grounding <mode>', 'Check analysis quotes against the transcript: off, flag, drop, or downweight (default flag)')
+  .option('--grounding-threshold <score>', 'Minimum quote match score (0-1) for a tag or concern to count as grounded (default 0.8)')
+  .option('-P, --parser <parser>', 'Filename parser to use: arex, simple, call-recording, or one from --filename-parsers (auto if not specified)')
+  .option('--filename-parsers <path>', 'JSON file of regex filename parsers, tried before the built-in ones')
+  .option('--timezone <zone>', 'Business timezone (IANA, e.g. Asia/Kolkata) for CSV timestamps and hourly buckets (default: system timezone)')
+  .option('--parser-timezones <list>', 'Timezone of the wall-clock times each filename parser reads, e.g. simple=Asia/Kolkata,call-recording=UTC')
+  .option('--metadata-sources <list>', 'Where call metadata comes from, highest precedence first (default: filename,sidecar,container; add mtime to fall back on file modification times)')
+  .option('--call-log <path>', 'Dialer/CRM call log CSV matched to recordings by phone number and start time')
+  .option('--call-log-tolerance <seconds>', 'Max gap between a call log start time and the recording timestamp (default 120)')
+  .option('--call-log-date-format <format>', 'Format of call log start times, e.g. "MM/DD/YYYY HH:mm A" (default: ISO 8601 or YYYY-MM-DD HH:mm:ss)')
+  .option('--default-country-code <cc>', 'Country code added to national phone numbers when normalising to E.164 (default 91)')
+  .option('--stt-base-url <url>', 'Base URL of an OpenAI-compatible transcription server (openai-compatible service)')
+  .option('--stt-language <code>', 'Language hint for openai-compatible transcription (e.g. en)')
+  .option('--stt-prompt <text>', 'Vocabulary hints / prompt for openai-compatible transcription')
+  .option('--stt-temperature <temperature>', 'Sampling temperature for openai-compatible transcription')
+  .option('--stt-response-format <format>', 'Response format for openai-compatible transcription: verbose_json, json, or text')
+  .option('--fallback-timeout <seconds>', 'Per-provider timeout (seconds) before a fallback chain moves to the next service', '600')
+  .option('--chunk', 'Split long recordings at silences and transcribe them in overlapping chunks')
+  .option('--chunk-seconds <seconds>', 'Target chunk length (seconds) when --chunk is set; capped at the service limit (55 for google)', '600')
+  .option('--chunk-overlap <seconds>', 'Audio shared by neighbouring chunks (seconds)', '5')
+  .option('--chunk-concurrency <n>', 'Number of chunks transcribed in parallel', '1')
+  .option('--retry-failed', 'Retry files whose transcription or analysis failed in an earlier run')
+  .option('--reanalyse-stale', 'Re-run analyses whose prompt, model or input mode differs from the current configuration')
+  .option('--price-table <path>', 'JSON price table used to cost provider usage (default: bundled cost_tracking/prices.json)')
+  .option('--max-cost <amount>', 'Stop before the run would spend more than this (price table currency)')
+  .option('--max-minutes <minutes>', 'Stop before the run would send more than this many audio minutes to providers')
+  .option('--scorecard [rubric]', 'Score analysed calls against an agent QA rubric (bundled rubric.json unless a path is given) and write scorecard.csv')
   .action(async (folder: string, options: TranscribeOptions) => {
     try {
       await main(folder, options);
@@ -65,6 +181,59 @@ program
     }
   });
 
+program
+  .command('status')
+  .description('Print processing state counts and list failed files from processing_state.json manifests')
+  .argument('[folder]', 'Folder path to inspect', './input')
+  .action(async (folder: string) => {
+    try {
+      await processStatus(folder);
+    } catch (error: unknown) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('eval')
+  .description('Run an analysis service and prompt over a labelled golden set and report accuracy, precision/recall/F1 and quote grounding')
+  .argument('[folder]', 'Golden set: recordings and/or transcripts with <name>.expected.json labels', './golden')
+  .option('-A, --analysis-service <service>', 'Analysis service(s) to evaluate: gemini, openai, local-llm, rules, or mock. Comma-separate to try in order', 'gemini')
+  .option('-k, --api-key <key>', 'OpenAI API key')
+  .option('--analysis-input <mode>', 'What the analysis model receives: audio or transcript')
+  .option('--prompt <name|path>', 'Analysis prompt: a bundled prompt name or a file path')
+  .option('--prompt-rules <path>', 'JSON rules choosing a prompt per call type, folder, filename or earlier tag')
+  .option('--taxonomy <path>', 'JSON taxonomy of call tags, concerns and todos (default: bundled taxonomy.json)')
+  .option('--tag-rules <path>', 'Keyword/phrase/regex rules for the rules analysis service')
+  .option('--filename-parsers <path>', 'JSON file of regex filename parsers (call type for --prompt-rules)')
+  .option('--analysis-retries <n>', 'Re-ask the analysis model up to n times when its JSON fails schema validation', '2')
+  .option('--grounding-threshold <score>', 'Minimum quote match score (0-1) for a quote to count as grounded (default 0.8)')
+  .option('--label <name>', 'Name for this run, added to the saved run file name')
+  .option('--output <path>', 'Where to save the run JSON (default: <folder>/eval_runs/<run>.json)')
+  .option('--baseline <run>', 'Diff this run against an earlier saved run JSON')
+  .action(async (folder: string, options: EvalOptions) => {
+    try {
+      await processEval(folder, options);
+    } catch (error: unknown) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('eval-diff')
+  .description('Compare two saved eval runs: metric deltas and the items whose predictions changed')
+  .argument('<before>', 'Earlier run JSON')
+  .argument('<after>', 'Later run JSON')
+  .action(async (before: string, after: string) => {
+    try {
+      printEvalDiff(diffRuns(await readEvalRun(before), await readEvalRun(after)));
+    } catch (error: unknown) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 async function main(folder: string, options: TranscribeOptions): Promise<void> {
   const { transcribeOnly, summaryOnly, analyseOnly, overviewOnly, model = 'whisper-1', apiKey, service = 'whisper', analysisService = 'gemini' } = options;
 
@@ -86,6 +255,11 @@ async function main(folder: string, options: TranscribeOptions): Promise<void> {
   console.log(`🚀 Starting ${mode} process...`);
   console.log(`📁 Target folder: ${folder}`);
 
+  await configureFilenameParsers(options);
+  console.log(`🕒 Business timezone: ${filenameParserFactory.getBusinessTimezone()}`);
+  console.log(`📞 Default country code: +${filenameParserFactory.getPhoneNormalizer().defaultCountryCode}`);
+  console.log(`🧩 Metadata sources: ${filenameParserFactory.getMetadataSources().join(' → ')}`);
+
   // Check and set filename parser override
   if (options.parser) {
     const parsers = filenameParserFactory.getParsers();
@@ -98,48 +272,128 @@ async function main(folder: string, options: TranscribeOptions): Promise<void> {
     console.log(`📋 Filename parser override set to: ${p.name}`);
   }
 
+  // Call tags, concerns and todos shared by prompts, validation and summary outputs
+  const taxonomy = await loadTaxonomy(options);
+  console.log(`🏷️  Taxonomy: ${taxonomy.values('call_tags').length} tags, ${taxonomy.values('concerns').length} concerns, ${taxonomy.values('todo').length} todos (${taxonomy.source})`);
+
   if (mode === 'transcribe' || mode === 'both') {
-    console.log(`🔊 Transcription service: ${service}`);
-    if (service === 'whisper') {
-      console.log(`🤖 Model: ${model}`);
-      // Get OpenAI API key
-      const openaiApiKey = apiKey || process.env.OPENAI_API_KEY;
-      if (!openaiApiKey) {
-        throw new Error('OpenAI API key not provided. Use --api-key option or set OPENAI_API_KEY environment variable');
+    const services = parseServiceList(service);
+    console.log(`🔊 Transcription service: ${services.join(' → ')}`);
+    for (const svc of services) {
+      if (svc === 'whisper') {
+        console.log(`🤖 Model: ${model}`);
+        // Get OpenAI API key
+        const openaiApiKey = apiKey || process.env.OPENAI_API_KEY;
+        if (!openaiApiKey) {
+          throw new Error('OpenAI API key not provided. Use --api-key option or set OPENAI_API_KEY environment variable');
+        }
+        console.log('✅ OpenAI API key configured');
+      } else if (svc === 'google') {
+        console.log('🔧 Google Speech-to-Text service selected');
+      } else if (svc === 'speechmatics') {
+        console.log('🎙️ Speechmatics service selected');
+      } else if (svc === 'gemini') {
+        console.log('💎 Gemini service selected');
+      } else if (svc === 'local-whisper') {
+        console.log('🖥️  Local Whisper service selected (offline)');
+        if (!process.env.LOCAL_WHISPER_MODEL) {
+          throw new Error('Local Whisper model not configured. Set LOCAL_WHISPER_MODEL environment variable');
+        }
+        console.log(`🤖 Model: ${process.env.LOCAL_WHISPER_MODEL}`);
+      } else if (svc === 'openai-compatible') {
+        console.log('🌐 OpenAI-compatible transcription service selected');
+        console.log(`🌐 Base URL: ${options.sttBaseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL || 'https://api.openai.com/v1'}`);
+        const format = options.sttResponseFormat;
+        if (format && !['verbose_json', 'json', 'text'].includes(format)) {
+          throw new Error(`Unsupported --stt-response-format: ${format}. Use 'verbose_json', 'json', or 'text'`);
+        }
+      } else {
+        throw new Error(`Unsupported transcription service: ${svc}. Use 'whisper', 'google', 'speechmatics', 'gemini', 'local-whisper', or 'openai-compatible'`);
       }
-      console.log('✅ OpenAI API key configured');
-    } else if (service === 'google') {
-      console.log('🔧 Google Speech-to-Text service selected');
-    } else if (service === 'speechmatics') {
-      console.log('🎙️ Speechmatics service selected');
-    } else if (service === 'gemini') {
-      console.log('💎 Gemini service selected');
-    } else {
-      throw new Error(`Unsupported transcription service: ${service}. Use 'whisper', 'google', 'speechmatics', or 'gemini'`);
+    }
+    if (services.length > 1) {
+      console.log(`🔗 Fallback chain enabled (timeout ${getFallbackTimeout(options)}s per provider)`);
+    }
+    if (options.chunk) {
+      const chunkCfg = getChunkConfig(options);
+      console.log(`🧩 Chunking enabled: ${chunkCfg.chunkSeconds}s chunks, ${chunkCfg.overlapSeconds}s overlap, ${chunkCfg.concurrency} in parallel`);
     }
   }
 
   if (mode === 'analyse' || mode === 'both' || mode === 'default') {
-    console.log(`🔍 Analysis service: ${analysisService}`);
-    if (analysisService === 'gemini') {
-      console.log('💎 Gemini analysis service selected');
-      const cfgMinKb = parseFloat(String(options.analysisMinKb ?? process.env.ANALYSIS_MIN_KB ?? '1'));
-      const effectiveMinKb = isNaN(cfgMinKb) || cfgMinKb < 0 ? 1 : cfgMinKb;
-      console.log(`📐 Min analysis file size: ${effectiveMinKb} KB`);
-      const cfgMb = parseFloat(String(options.analysisMaxMb ?? process.env.ANALYSIS_MAX_MB ?? '2'));
-      const effectiveMb = isNaN(cfgMb) || cfgMb <= 0 ? 2 : cfgMb;
+    const analysisServices = parseServiceList(analysisService);
+    console.log(`🔍 Analysis service: ${analysisServices.join(' → ')}`);
+    for (const svc of analysisServices) {
+      if (svc === 'gemini') {
+        console.log('💎 Gemini analysis service selected');
+      } else if (svc === 'openai') {
+        console.log('🤖 OpenAI analysis service selected');
+        if (!(apiKey || process.env.OPENAI_API_KEY)) {
+          throw new Error('OpenAI API key not provided. Use --api-key option or set OPENAI_API_KEY environment variable');
+        }
+      } else if (svc === 'local-llm') {
+        console.log('🖥️  Local LLM analysis service selected (on-premise)');
+        console.log(`🌐 Endpoint: ${process.env.LOCAL_LLM_URL || 'http://localhost:11434'} (model ${process.env.LOCAL_LLM_MODEL || 'llama3.1'})`);
+        if (getAnalysisInputMode(options) !== 'transcript') {
+          throw new Error('The local-llm analysis service needs transcripts. Add --analysis-input transcript');
+        }
+      } else if (svc === 'rules') {
+        console.log('📏 Rule-based analysis service selected (offline, uses existing transcripts)');
+      } else if (svc === 'mock') {
+        console.log('🧪 Mock analysis service selected (replays <name>.mock.json responses)');
+      } else {
+        throw new Error(`Unsupported analysis service: ${svc}. Use 'gemini', 'openai', 'local-llm', 'rules', or 'mock'`);
+      }
+    }
+    if (analysisServices.length > 1) {
+      console.log(`🔗 Fallback chain enabled (timeout ${getFallbackTimeout(options)}s per provider)`);
+    }
+    if (analysisServices.includes('rules') || isRulesPrefilterEnabled(options)) {
+      const ruleSet = await loadTagRules(getTagRulesPath(options), taxonomy);
+      console.log(`📏 Tag rules: "${ruleSet.name}" (${ruleSet.rules.length} rules from ${ruleSet.source})`);
+    }
+    if (isRulesPrefilterEnabled(options)) {
+      console.log('🚦 Rules prefilter: calls without a matching rule skip the analysis service');
+    }
+    const analysisInput = getAnalysisInputMode(options);
+    console.log(`📥 Analysis input: ${analysisInput}`);
+    console.log(`🧪 Schema validation: up to ${getAnalysisRetries(options)} re-ask(s) on invalid JSON`);
+    if (options.reanalyseStale) {
+      console.log('♻️  Re-analysing calls whose prompt, model or input mode changed');
+    }
+    const grounding = getGroundingConfig(options);
+    console.log(`🔎 Quote grounding: ${grounding.mode}${grounding.mode !== 'off' ? ` (threshold ${grounding.threshold})` : ''}`);
+    const promptRegistry = await loadPromptRegistry(options);
+    const forcedPrompt = options.prompt || process.env.ANALYSIS_PROMPT;
+    if (forcedPrompt) {
+      console.log(`📜 Prompt: ${(await promptRegistry.get(forcedPrompt)).name}`);
+    } else if (promptRegistry.ruleCount > 0) {
+      console.log(`📜 Prompt rules: ${promptRegistry.ruleCount} from ${options.promptRules || process.env.PROMPT_RULES}`);
+    }
+    if (options.scorecard) {
+      const { rubric } = await loadRubric(getScorecardRubricPath(options));
+      console.log(`📋 Agent scorecard: rubric "${rubric.name}" (${rubric.criteria.length} criteria)`);
+    }
+    const cfgMinKb = parseFloat(String(options.analysisMinKb ?? process.env.ANALYSIS_MIN_KB ?? '1'));
+    const effectiveMinKb = isNaN(cfgMinKb) || cfgMinKb < 0 ? 1 : cfgMinKb;
+    console.log(`📐 Min analysis file size: ${effectiveMinKb} KB`);
+    const cfgMb = parseFloat(String(options.analysisMaxMb ?? process.env.ANALYSIS_MAX_MB ?? '2'));
+    const effectiveMb = isNaN(cfgMb) || cfgMb <= 0 ? 2 : cfgMb;
+    if (analysisInput === 'audio' && analysisSupportsLargeAudio(options)) {
+      console.log('📏 Max analysis file size: not applied (large files are uploaded through the Gemini Files API)');
+    } else if (analysisInput === 'audio') {
       console.log(`📏 Max analysis file size: ${effectiveMb} MB`);
-      const cfgMinSec = parseFloat(String(options.analysisMinSeconds ?? process.env.ANALYSIS_MIN_SECONDS ?? '60'));
-      const effectiveMinSec = isNaN(cfgMinSec) || cfgMinSec < 0 ? 60 : Math.floor(cfgMinSec);
-      console.log(`⏱️  Min analysis duration: ${effectiveMinSec} seconds`);
     } else {
-      throw new Error(`Unsupported analysis service: ${analysisService}. Use 'gemini'`);
+      console.log('📏 Max analysis file size: not applied (transcript input)');
     }
+    const cfgMinSec = parseFloat(String(options.analysisMinSeconds ?? process.env.ANALYSIS_MIN_SECONDS ?? '60'));
+    const effectiveMinSec = isNaN(cfgMinSec) || cfgMinSec < 0 ? 60 : Math.floor(cfgMinSec);
+    console.log(`⏱️  Min analysis duration: ${effectiveMinSec} seconds`);
   }
 
   if (mode === 'overview') {
     console.log('🔄 Starting overview generation...');
-    await processOverviewAtBase(folder);
+    await processOverviewAtBase(folder, taxonomy);
     console.log('✅ Overview generation completed');
     console.log(`✅ ${mode.charAt(0).toUpperCase() + mode.slice(1)} process completed successfully`);
     return;
@@ -157,106 +411,402 @@ async function main(folder: string, options: TranscribeOptions): Promise<void> {
   // Supported audio/video extensions
   const supportedExtensions = ['.mp3', '.wav', '.mp4', '.m4a', '.flac', '.ogg', '.amr'];
 
+  // Every run that may call a paid provider gets a usage ledger and budget
+  if (mode !== 'summary') {
+    const prices = await PriceTable.load(getPriceTablePath(options));
+    const budget = getBudgetConfig(options);
+    usageLedger = new UsageLedger(prices, budget);
+    console.log(`💰 Price table: ${prices.source} (${prices.currency})`);
+    if (budget.maxCost !== undefined) console.log(`💰 Max cost: ${usageLedger.formatCost(budget.maxCost)}`);
+    if (budget.maxMinutes !== undefined) console.log(`💰 Max audio minutes: ${budget.maxMinutes}`);
+  }
+
+  // Paid stages stop cleanly at the budget; free stages (summary, overview) still run
+  let budgetStop: string | null = null;
+  const runPaidStage = async (label: string, run: () => Promise<void>) => {
+    if (budgetStop) {
+      console.log(`⏭️  Skipping ${label}: budget reached`);
+      return;
+    }
+    console.log(`🔄 Starting ${label}...`);
+    try {
+      await run();
+      console.log(`✅ ${label.charAt(0).toUpperCase() + label.slice(1)} completed`);
+    } catch (error: unknown) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      budgetStop = error.message;
+      console.warn(`🛑 ${error.message}; stopping ${label}`);
+    }
+  };
+
+  // Match the call log against every recording up front so rows go to the closest recording, not the first found
+  if (filenameParserFactory.getCallLog()) {
+    await matchCallLog(folder, supportedExtensions);
+  }
+
   // Execute based on mode
   if (mode === 'default') {
     // Default pipeline: analyse -> summary -> overview
-    console.log('🔄 Starting analysis process...');
-    await processAnalysis(folder, options);
-    console.log('✅ Analysis completed');
+    await runPaidStage('analysis', () => processAnalysis(folder, options));
+    if (options.scorecard) {
+      await runPaidStage('scorecard pass', () => processScorecard(folder, options));
+    }
 
     console.log('🔄 Starting summary generation...');
-    await processSummary(folder, supportedExtensions);
+    await processSummary(folder, supportedExtensions, taxonomy);
     console.log('✅ Summary generation completed');
 
     console.log('🔄 Starting overview generation...');
-    await processOverviewAtBase(folder);
+    await processOverviewAtBase(folder, taxonomy);
     console.log('✅ Overview generation completed');
+  } else {
+    if (mode === 'transcribe' || mode === 'both') {
+      console.log(`🎵 Supported file extensions: ${supportedExtensions.join(', ')}`);
+      await runPaidStage('transcription', () => processTranscription(folder, options, supportedExtensions));
+    }
 
-    console.log(`✅ Default process completed successfully`);
-    return;
-  }
-  if (mode === 'transcribe' || mode === 'both') {
-    console.log(`🎵 Supported file extensions: ${supportedExtensions.join(', ')}`);
-    console.log('🔄 Starting transcription process...');
-    await processTranscription(folder, options, supportedExtensions);
-    console.log('✅ Transcription completed');
-  }
+    if (mode === 'summary' || mode === 'both') {
+      console.log('🔄 Starting summary generation...');
+      await processSummary(folder, supportedExtensions, taxonomy);
+      console.log('✅ Summary generation completed');
+    }
 
-  if (mode === 'summary' || mode === 'both') {
-    console.log('🔄 Starting summary generation...');
-    await processSummary(folder, supportedExtensions);
-    console.log('✅ Summary generation completed');
+    if (mode === 'analyse' || mode === 'both') {
+      await runPaidStage('analysis', () => processAnalysis(folder, options));
+      if (options.scorecard) {
+        await runPaidStage('scorecard pass', () => processScorecard(folder, options));
+      }
+    }
   }
 
-  if (mode === 'analyse' || mode === 'both') {
-    console.log('🔄 Starting analysis process...');
-    await processAnalysis(folder, options);
-    console.log('✅ Analysis completed');
+  if (usageLedger) {
+    await writeCostsCsv(folder, usageLedger);
+  }
+  if (budgetStop) {
+    console.log(`🛑 Run stopped early: ${budgetStop}`);
   }
-
   console.log(`✅ ${mode.charAt(0).toUpperCase() + mode.slice(1)} process completed successfully`);
 }
 
 async function processTranscription(folder: string, options: TranscribeOptions, extensions: string[]): Promise<void> {
-  const { model = 'whisper-1', apiKey, service = 'whisper' } = options;
-
-  // Create provider instance based on service
-  let provider: TranscriptionProvider;
+  const { service = 'whisper' } = options;
 
   // Only create AudioConverter for providers that need it
   const converter = new AudioConverter();
 
+  // Create provider instances based on service; several services form a fallback chain
+  const providers = parseServiceList(service).map(svc => createTranscriptionProvider(svc, options, converter));
+  let provider: TranscriptionProvider = providers.length > 1
+    ? new FallbackTranscriptionProvider(providers, { timeoutSeconds: getFallbackTimeout(options) })
+    : providers[0];
+
+  // Chunking sits outside the fallback chain so each chunk can fall back on its own
+  if (options.chunk) {
+    const chunkCfg = getChunkConfig(options);
+    const chunker = new AudioChunker(converter, { chunkSeconds: chunkCfg.chunkSeconds, overlapSeconds: chunkCfg.overlapSeconds });
+    provider = new ChunkedTranscriptionProvider(provider, converter, chunker, { concurrency: chunkCfg.concurrency });
+  }
+
+  await processFolderForTranscription(folder, provider, options);
+}
+
+function getChunkConfig(options: TranscribeOptions): { chunkSeconds: number; overlapSeconds: number; concurrency: number } {
+  const cfgSeconds = parseFloat(String(options.chunkSeconds ?? process.env.CHUNK_SECONDS ?? '600'));
+  const chunkSeconds = isNaN(cfgSeconds) || cfgSeconds < 30 ? 600 : cfgSeconds;
+  const cfgOverlap = parseFloat(String(options.chunkOverlap ?? process.env.CHUNK_OVERLAP_SECONDS ?? '5'));
+  const overlapSeconds = isNaN(cfgOverlap) || cfgOverlap < 0 || cfgOverlap >= chunkSeconds / 2 ? 5 : cfgOverlap;
+  const cfgConcurrency = parseInt(String(options.chunkConcurrency ?? process.env.CHUNK_CONCURRENCY ?? '1'), 10);
+  const concurrency = isNaN(cfgConcurrency) || cfgConcurrency < 1 ? 1 : cfgConcurrency;
+  return { chunkSeconds, overlapSeconds, concurrency };
+}
+
+function createTranscriptionProvider(service: string, options: TranscribeOptions, converter: AudioConverter): TranscriptionProvider {
+  const { model = 'whisper-1', apiKey } = options;
+
   switch (service) {
     case 'whisper':
-      provider = new WhisperProvider(converter);
-      break;
+      return new WhisperProvider(converter);
     case 'google':
-      provider = new GoogleProvider(converter);
-      break;
+      return new GoogleProvider(converter);
     case 'speechmatics':
-      provider = new SpeechmaticsProvider();
-      break;
+      return new SpeechmaticsProvider();
     case 'gemini':
-      provider = new GeminiProvider();
-      break;
+      return new GeminiProvider();
+    case 'local-whisper':
+      return new LocalWhisperProvider(converter);
+    case 'openai-compatible': {
+      const temperature = options.sttTemperature !== undefined ? parseFloat(String(options.sttTemperature)) : undefined;
+      return new OpenAICompatibleProvider(converter, {
+        baseURL: options.sttBaseUrl,
+        // Only pass --model through when the user changed it from the Whisper default
+        model: model !== 'whisper-1' ? model : undefined,
+        apiKey,
+        language: options.sttLanguage,
+        prompt: options.sttPrompt,
+        temperature: temperature !== undefined && !isNaN(temperature) ? temperature : undefined,
+        responseFormat: options.sttResponseFormat as CompatibleResponseFormat | undefined
+      });
+    }
     default:
       throw new Error(`Unsupported transcription service: ${service}`);
   }
+}
 
-  await processFolderForTranscription(folder, provider, options);
+/**
+ * Split a comma-separated --service / --analysis-service value into service names.
+ */
+function parseServiceList(value: string): string[] {
+  const services = value.split(',').map(v => v.trim().toLowerCase()).filter(v => v.length > 0);
+  if (services.length === 0) {
+    throw new Error('No service specified');
+  }
+  return services;
+}
+
+function getFallbackTimeout(options: TranscribeOptions): number {
+  const cfg = parseFloat(String(options.fallbackTimeout ?? process.env.FALLBACK_TIMEOUT_SECONDS ?? '600'));
+  return isNaN(cfg) || cfg <= 0 ? 600 : cfg;
 }
 
-async function processSummary(folder: string, extensions: string[]): Promise<void> {
+async function processSummary(folder: string, extensions: string[], taxonomy: Taxonomy): Promise<void> {
   // Collect rows across all subfolders and write a concatenated CSV
   // into the same folder the user invoked (e.g., input/summary.csv).
-  const aggregate: any[] = [];
-  await processFolderForSummary(folder, extensions, aggregate);
+  const collector: SummaryCollector = { baseFolder: folder, rows: [], scorecards: [], calls: [] };
+  await processFolderForSummary(folder, extensions, taxonomy, collector);
 
   try {
-    if (aggregate.length > 0) {
-      await generateCsvFile(folder, aggregate);
+    if (collector.rows.length > 0) {
+      await generateCsvFile(folder, collector.rows, taxonomy);
       console.log(`📊 Concatenated CSV generated: ${path.join(folder, 'summary.csv')}`);
     }
   } catch (error) {
     console.error(`❌ Failed to generate concatenated CSV: ${error instanceof Error ? error.message : String(error)}`);
   }
+
+  if (collector.scorecards.length > 0) {
+    await generateScorecardCsvFile(folder, collector.scorecards);
+  }
+
+  if (collector.calls.length > 0) {
+    await generateCustomerFiles(folder, buildCustomerJourneys(collector.calls));
+  }
+
+  const callLog = filenameParserFactory.getCallLog();
+  if (callLog) {
+    await writeCallLogReport(folder, callLog);
+  }
 }
 
 async function processAnalysis(folder: string, options: TranscribeOptions): Promise<void> {
+  const provider = await createAnalysisChain(options);
+  const promptRegistry = await loadPromptRegistry(options);
+
+  await processFolderForAnalysis(folder, provider, promptRegistry, options);
+}
+
+async function processScorecard(folder: string, options: TranscribeOptions): Promise<void> {
+  const { rubric, prompt } = await loadRubric(getScorecardRubricPath(options));
+  const provider = await createAnalysisChain(options, data => validateScorecard(data, rubric));
+
+  await processFolderForScorecard(folder, provider, rubric, prompt, options);
+}
+
+/**
+ * Create provider instances based on --analysis-service; several services form a fallback chain.
+ * Each one validates (and repairs) its own output before the chain moves on. With
+ * --rules-prefilter the tag rules decide which calls reach the chain (not for scorecards).
+ */
+async function createAnalysisChain(options: TranscribeOptions, validate?: (data: Record<string, any>) => ValidationOutcome): Promise<AnalysisProvider> {
   const { analysisService = 'gemini' } = options;
+  const services = parseServiceList(analysisService);
+  const prefilter = isRulesPrefilterEnabled(options) && !validate;
+  const taxonomy = await loadTaxonomy(options);
+  const ruleSet = services.includes('rules') || prefilter ? await loadTagRules(getTagRulesPath(options), taxonomy) : undefined;
+  const retries = getAnalysisRetries(options);
+  const validateCall = validate ?? ((data: Record<string, any>) => validateAnalysis(data, taxonomy));
+  const converter = new AudioConverter();
+  const providers = services
+    .map(svc => new ValidatingAnalysisProvider(createAnalysisProvider(svc, options, converter, ruleSet), { retries, validate: validateCall }));
+  const chain = providers.length > 1
+    ? new FallbackAnalysisProvider(providers, { timeoutSeconds: getFallbackTimeout(options) })
+    : providers[0];
+  if (!prefilter || !ruleSet) return chain;
+  const rulesProvider = new ValidatingAnalysisProvider(new RulesAnalysisProvider(ruleSet), { retries: 0, validate: validateCall });
+  return new RulesPrefilterAnalysisProvider(ruleSet, rulesProvider, chain);
+}
+
+// What supportsLargeAudio() of the chain above returns, without building it: only Gemini uploads large files
+function analysisSupportsLargeAudio(options: TranscribeOptions): boolean {
+  return parseServiceList(options.analysisService || 'gemini').every(svc => svc === 'gemini') && GeminiFileUploader.isEnabled();
+}
+
+function getTagRulesPath(options: TranscribeOptions): string {
+  return options.tagRules || process.env.TAG_RULES || path.join(__dirname, 'analysis_providers', 'rules.json');
+}
+
+function isRulesPrefilterEnabled(options: TranscribeOptions): boolean {
+  return options.rulesPrefilter ?? process.env.RULES_PREFILTER === 'true';
+}
+
+function getScorecardRubricPath(options: TranscribeOptions): string {
+  if (typeof options.scorecard === 'string') return options.scorecard;
+  return process.env.SCORECARD_RUBRIC || path.join(__dirname, 'analysis_providers', 'rubric.json');
+}
 
-  // Create provider instance based on service
-  let provider: AnalysisProvider;
+function getPriceTablePath(options: TranscribeOptions): string {
+  return options.priceTable || process.env.PRICE_TABLE || path.join(__dirname, 'cost_tracking', 'prices.json');
+}
+
+function getBudgetConfig(options: TranscribeOptions): BudgetConfig {
+  const parseCap = (value: unknown, flag: string): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const cap = parseFloat(String(value));
+    if (isNaN(cap) || cap < 0) {
+      throw new Error(`Invalid ${flag}: ${value}. Use a non-negative number`);
+    }
+    return cap;
+  };
+  return {
+    maxCost: parseCap(options.maxCost ?? process.env.MAX_COST, '--max-cost'),
+    maxMinutes: parseCap(options.maxMinutes ?? process.env.MAX_MINUTES, '--max-minutes')
+  };
+}
+
+async function getAudioSeconds(filePath: string): Promise<number | null> {
+  const duration = await getAudioDuration(filePath);
+  return duration ? hmsToSeconds(duration) : null;
+}
+
+/**
+ * Price the requests made for one file and add them to the run's ledger.
+ * Requests that sent the recording itself count its length as audio minutes.
+ */
+function recordUsage(folder: string, filename: string, stage: StageName, usage: ProviderUsage[], audioSeconds: number | null): UsageSummary | undefined {
+  if (!usageLedger) return undefined;
+  const withAudio = audioSeconds === null ? usage : usage.map(u => ({ ...u, audioSeconds: u.audioSeconds ?? audioSeconds }));
+  const summary = usageLedger.record(folder, filename, stage, withAudio);
+  console.log(`💰 Usage: ${summary.requests} request(s), ${(summary.audio_seconds / 60).toFixed(2)} audio min, ${summary.input_tokens + summary.output_tokens} tokens, ${usageLedger.formatCost(summary.cost)} (run total ${usageLedger.formatCost(usageLedger.totalCost)})`);
+  return summary;
+}
+
+// Requests made before a provider call failed are billed too
+function recordFailedUsage(folder: string, filename: string, stage: StageName, error: unknown, audioSeconds: number | null): UsageSummary | undefined {
+  const usage = usageOf(error);
+  return usage.length > 0 ? recordUsage(folder, filename, stage, usage, audioSeconds) : undefined;
+}
+
+async function loadPromptRegistry(options: TranscribeOptions): Promise<PromptRegistry> {
+  return PromptRegistry.load({
+    prompt: options.prompt || process.env.ANALYSIS_PROMPT,
+    rulesPath: options.promptRules || process.env.PROMPT_RULES,
+    taxonomy: await loadTaxonomy(options)
+  });
+}
+
+/**
+ * Register the regex parsers from --filename-parsers (or FILENAME_PARSERS)
+ * ahead of the built-in parsers, then apply the business and per-parser timezones
+ * the phone number country code and the metadata sources, and load the
+ * --call-log (or CALL_LOG) export the recordings are matched against.
+ */
+async function configureFilenameParsers(options: TranscribeOptions): Promise<void> {
+  const parsersPath = options.filenameParsers || process.env.FILENAME_PARSERS;
+  if (parsersPath) {
+    const parsers = await loadFilenameParserDefinitions(parsersPath);
+    filenameParserFactory.prependParsers(parsers);
+    console.log(`📋 Filename parsers: ${parsers.map(p => p.name).join(', ') || 'none'} (${parsersPath})`);
+  }
+
+  const businessTimezone = options.timezone || process.env.BUSINESS_TIMEZONE;
+  if (businessTimezone) {
+    filenameParserFactory.setBusinessTimezone(businessTimezone);
+  }
+  const parserTimezones = options.parserTimezones || process.env.PARSER_TIMEZONES;
+  for (const entry of (parserTimezones || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const [name, zone] = entry.split('=').map(v => v.trim());
+    if (!name || !zone) {
+      throw new Error(`Invalid --parser-timezones entry: ${entry}. Use <parser>=<zone>`);
+    }
+    filenameParserFactory.setParserTimezone(name, zone);
+  }
+
+  if (options.defaultCountryCode) {
+    filenameParserFactory.setPhoneNormalizer(new PhoneNormalizer({ defaultCountryCode: options.defaultCountryCode }));
+  }
+
+  const metadataSources = options.metadataSources || process.env.METADATA_SOURCES || 'filename,sidecar,container';
+  filenameParserFactory.setMetadataSources(parseServiceList(metadataSources));
+
+  const callLogPath = options.callLog || process.env.CALL_LOG;
+  if (callLogPath) {
+    const tolerance = parseFloat(String(options.callLogTolerance ?? process.env.CALL_LOG_TOLERANCE ?? '120'));
+    if (isNaN(tolerance) || tolerance < 0) {
+      throw new Error(`Invalid --call-log-tolerance: ${options.callLogTolerance ?? process.env.CALL_LOG_TOLERANCE}. Use seconds, e.g. 120`);
+    }
+    const { headers, rows } = parseCsv(await fs.readFile(callLogPath, 'utf8'));
+    const normalizer = filenameParserFactory.getPhoneNormalizer();
+    const timezone = filenameParserFactory.getBusinessTimezone();
+    // Start times are wall-clock in the business timezone unless they carry an offset
+    const dateFormat = options.callLogDateFormat || process.env.CALL_LOG_DATE_FORMAT;
+    const datePattern = dateFormat ? compileDateFormat(dateFormat) : null;
+    const readTime = (raw: string): Date | null => {
+      if (!datePattern) return parseCallTimestamp(raw, timezone);
+      const parts = datePattern.exec(raw)?.groups;
+      const wallClock = parts ? wallClockFromParts(parts) : null;
+      return wallClock ? parseCallTimestamp(wallClock, timezone) : null;
+    };
+    const callLog = CallLog.fromRows(callLogPath, headers, rows, {
+      phone: raw => normalizer.normalize(raw),
+      time: readTime
+    }, { toleranceSeconds: tolerance });
+    filenameParserFactory.setCallLog(callLog);
+    console.log(`📇 Call log: ${callLog.entries.length} call(s) from ${callLogPath} (tolerance ${tolerance}s${dateFormat ? `, start times as ${dateFormat}` : ''})`);
+  }
+}
+
+function loadTaxonomy(options: TranscribeOptions): Promise<Taxonomy> {
+  return Taxonomy.load(options.taxonomy || process.env.TAXONOMY || path.join(__dirname, 'analysis_providers', 'taxonomy.json'));
+}
+
+function getAnalysisRetries(options: TranscribeOptions): number {
+  const cfg = parseInt(String(options.analysisRetries ?? process.env.ANALYSIS_RETRIES ?? '2'), 10);
+  return isNaN(cfg) || cfg < 0 ? 2 : cfg;
+}
+
+function getGroundingConfig(options: TranscribeOptions): { mode: GroundingMode; threshold: number } {
+  const mode = String(options.grounding ?? process.env.QUOTE_GROUNDING ?? 'flag').trim().toLowerCase();
+  if (!GROUNDING_MODES.includes(mode as GroundingMode)) {
+    throw new Error(`Unsupported --grounding: ${mode}. Use 'off', 'flag', 'drop', or 'downweight'`);
+  }
+  const cfg = parseFloat(String(options.groundingThreshold ?? process.env.QUOTE_GROUNDING_THRESHOLD ?? '0.8'));
+  const threshold = isNaN(cfg) || cfg < 0 || cfg > 1 ? 0.8 : cfg;
+  return { mode: mode as GroundingMode, threshold };
+}
 
-  switch (analysisService) {
+function getAnalysisInputMode(options: TranscribeOptions): AnalysisInputMode {
+  const mode = String(options.analysisInput ?? process.env.ANALYSIS_INPUT ?? 'audio').trim().toLowerCase();
+  if (!ANALYSIS_INPUT_MODES.includes(mode as AnalysisInputMode)) {
+    throw new Error(`Unsupported --analysis-input: ${mode}. Use 'audio' or 'transcript'`);
+  }
+  return mode as AnalysisInputMode;
+}
+
+function createAnalysisProvider(service: string, options: TranscribeOptions, converter: AudioConverter, ruleSet?: TagRuleSet): AnalysisProvider {
+  switch (service) {
     case 'gemini':
-      provider = new GeminiAnalysisProvider();
-      break;
+      return new GeminiAnalysisProvider();
+    case 'openai':
+      return new OpenAIAnalysisProvider(converter, { apiKey: options.apiKey || process.env.OPENAI_API_KEY });
+    case 'local-llm':
+      return new LocalLlmAnalysisProvider();
+    case 'rules':
+      if (!ruleSet) throw new Error('The rules analysis service needs tag rules');
+      return new RulesAnalysisProvider(ruleSet);
+    case 'mock':
+      return new MockAnalysisProvider();
     default:
-      throw new Error(`Unsupported analysis service: ${analysisService}. Use 'gemini'`);
+      throw new Error(`Unsupported analysis service: ${service}. Use 'gemini', 'openai', 'local-llm', 'rules', or 'mock'`);
   }
-
-  await processFolderForAnalysis(folder, provider, options);
 }
 
 async function processFolderForTranscription(folder: string, provider: TranscriptionProvider, options: TranscribeOptions): Promise<void> {
@@ -266,9 +816,11 @@ async function processFolderForTranscription(folder: string, provider: Transcrip
 
   const items = await fs.readdir(folder, { withFileTypes: true });
   console.log(`📋 Found ${items.length} items in ${folder}\n`);
+  const state = await ProcessingStateStore.load(folder);
 
   let processedCount = 0;
   let skippedCount = 0;
+  let failedCount = 0;
   let dirCount = 0;
 
   for (const item of items) {
@@ -286,15 +838,54 @@ async function processFolderForTranscription(folder: string, provider: Transcrip
         console.log(`${'-'.repeat(60)}`);
 
         const txtPath = path.join(folder, path.basename(item.name, ext) + '.txt');
-        try {
-          await fs.access(txtPath);
-          console.log(`⏭️  SKIPPING: Transcription already exists`);
+        const needed = await needsProcessing(state, item.name, 'transcription', txtPath, options, async () => {
+          // Older runs wrote failures into the .txt itself
+          const content = await fs.readFile(txtPath, 'utf8').catch(() => '');
+          const match = content.trim().match(/^\[Transcription failed: ([\s\S]*)\]$/);
+          return match ? match[1] : null;
+        });
+        if (!needed) {
           skippedCount++;
-        } catch {
+        } else {
+          const audioSeconds = await getAudioSeconds(fullPath);
+          const firstService = parseServiceList(options.service ?? 'whisper')[0];
+          usageLedger?.assertWithinBudget({
+            stage: 'transcription',
+            provider: firstService,
+            model: firstService === 'whisper' ? options.model ?? 'whisper-1' : undefined,
+            audioSeconds
+          });
           console.log(`🎙️  STARTING TRANSCRIPTION...`);
           console.log(`🔧 Service: ${provider.name}`);
-          await provider.transcribeFile(fullPath, txtPath);
-          processedCount++;
+          await state.markPending(item.name, 'transcription', { provider: provider.name });
+          try {
+            const result = await provider.transcribeFile(fullPath, txtPath);
+            if (result.provider) {
+              console.log(`🏷️  Transcript produced by: ${result.provider}`);
+            }
+            const producedBy = result.provider ?? result.transcript?.provider ?? provider.name;
+            // Services billed per audio minute do not report usage themselves
+            const usage = recordUsage(folder, item.name, 'transcription',
+              result.usage ?? [meterAudio(producedBy, result.duration, result.transcript?.model)], audioSeconds);
+            await state.markOk(item.name, 'transcription', {
+              provider: producedBy,
+              model: result.transcript?.model,
+              usage
+            });
+            processedCount++;
+          } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`❌ TRANSCRIPTION FAILED: ${message}`);
+            const usage = recordFailedUsage(folder, item.name, 'transcription', error, audioSeconds);
+            try {
+              await fs.writeFile(txtPath, `[Transcription failed: ${message}]`, 'utf8');
+              console.log(`💾 Saved error message to: ${txtPath}`);
+            } catch {
+              console.error('❌ Could not write error message to file');
+            }
+            await state.markFailed(item.name, 'transcription', message, { provider: provider.name, usage });
+            failedCount++;
+          }
         }
       } else {
         console.log(`❌ SKIPPING: ${item.name} (unsupported format: ${ext})`);
@@ -306,11 +897,12 @@ async function processFolderForTranscription(folder: string, provider: Transcrip
   console.log(`📊 TRANSCRIPTION SUMMARY: ${folder}`);
   console.log(`   • Processed: ${processedCount} files`);
   console.log(`   • Skipped: ${skippedCount} files`);
+  console.log(`   • Failed: ${failedCount} files`);
   console.log(`   • Subdirectories: ${dirCount}`);
   console.log(`${'='.repeat(80)}\n`);
 }
 
-async function processFolderForSummary(folder: string, extensions: string[], aggregate?: any[]): Promise<void> {
+async function processFolderForSummary(folder: string, extensions: string[], taxonomy: Taxonomy, collector?: SummaryCollector): Promise<void> {
   console.log(`\n${'='.repeat(80)}`);
   console.log(`📂 SUMMARY - SCANNING DIRECTORY: ${folder}`);
   console.log(`${'='.repeat(80)}`);
@@ -323,7 +915,8 @@ async function processFolderForSummary(folder: string, extensions: string[], agg
   const csvData: any[] = [];
   const outgoingAnalyses: any[] = [];
   const incomingAnalyses: any[] = [];
-  const deactivationAnalyses: any[] = [];
+  // Analyses with a grouped tag (taxonomy `group`) go to <group>_calls.json instead of by call type
+  const groupedAnalyses = new Map<string, any[]>(taxonomy.groups.map(g => [g, []]));
 
   for (const item of items) {
     const fullPath = path.join(folder, item.name);
@@ -331,7 +924,7 @@ async function processFolderForSummary(folder: string, extensions: string[], agg
     if (item.isDirectory()) {
       console.log(`📁 Entering subdirectory: ${fullPath}`);
       dirCount++;
-      await processFolderForSummary(fullPath, extensions, aggregate);
+      await processFolderForSummary(fullPath, extensions, taxonomy, collector);
     } else if (item.isFile()) {
       const ext = path.extname(item.name).toLowerCase();
       if (extensions.includes(ext)) {
@@ -351,7 +944,7 @@ async function processFolderForSummary(folder: string, extensions: string[], agg
         }
 
         // Add to CSV regardless of transcription status
-        const metadata = filenameParserFactory.parseFilenameMetadata(item.name);
+        const metadata = await filenameParserFactory.parseFileMetadata(fullPath);
         const duration = await getAudioDuration(fullPath);
 
         // Try to read analysis JSON if present
@@ -360,7 +953,13 @@ async function processFolderForSummary(folder: string, extensions: string[], agg
         try {
           const analysisContent = await fs.readFile(analysisJsonPath, 'utf8');
           analysis = JSON.parse(analysisContent);
-          console.log(`✅ Found analysis file: ${analysisJsonPath}`);
+          if (analysis && 'raw_response' in analysis) {
+            // Written by older versions when the model's reply was not JSON
+            console.log(`⚠️  Ignoring unparsed analysis file: ${analysisJsonPath}`);
+            analysis = null;
+          } else {
+            console.log(`✅ Found analysis file: ${analysisJsonPath}`);
+          }
         } catch {
           // No analysis available
           analysis = null;
@@ -398,11 +997,20 @@ async function processFolderForSummary(folder: string, extensions: string[], agg
             }
             row.callTagsCount = uniqueTags.length;
             row.callTags = uniqueTags.join(' | ');
+            row.tagSet = seen;
           } else {
             row.callTagsCount = '';
             row.callTags = '';
+            row.tagSet = new Set<string>();
           }
           row.concernsCount = Array.isArray(analysis.concerns) ? analysis.concerns.length : '';
+          // Tags and concerns whose quote was not found in the transcript (blank when not checked)
+          const ungrounded = analysis.grounding?.checked && Array.isArray(analysis.grounding.ungrounded)
+            ? analysis.grounding.ungrounded
+            : null;
+          row.ungroundedItems = ungrounded
+            ? ungrounded.map((u: any) => `${u.value} (${u.score})`).join(' | ') || 'None'
+            : '';
 
           const insights = analysis.advanced_insights || {};
           row.emotionalState = insights.emotional_state ?? '';
@@ -414,18 +1022,21 @@ async function processFolderForSummary(folder: string, extensions: string[], agg
 
           // Classify this analysis JSON into grouped arrays for this folder
           try {
-            const isDeactivation = Array.isArray(analysis.call_tags) && analysis.call_tags.some((t: any) => String(t?.tag ?? '').toLowerCase() === 'deactivation');
+            const group = taxonomy.groupOf([...row.tagSet]);
             const analysisWithMeta = {
               filename: item.name,
               callType: metadata.callType,
               timestamp: metadata.timestamp,
               phoneNumber: metadata.phoneNumber,
+              agent: metadata.agent,
+              disposition: metadata.disposition,
+              customerId: metadata.customerId,
               duration: row.duration,
               ...analysis
             };
             const callTypeLower = (metadata.callType || '').toLowerCase();
-            if (isDeactivation) {
-              deactivationAnalyses.push(analysisWithMeta);
+            if (group) {
+              groupedAnalyses.get(group)!.push(analysisWithMeta);
             } else if (callTypeLower.includes('outgoing')) {
               outgoingAnalyses.push(analysisWithMeta);
             } else if (callTypeLower.includes('incoming') || callTypeLower.includes('incomming')) {
@@ -434,8 +1045,27 @@ async function processFolderForSummary(folder: string, extensions: string[], agg
           } catch {}
         }
 
+        if (collector) {
+          const scorecardPath = path.join(folder, path.basename(item.name, ext) + '_scorecard.json');
+          try {
+            collector.scorecards.push(JSON.parse(await fs.readFile(scorecardPath, 'utf8')));
+            console.log(`✅ Found scorecard file: ${scorecardPath}`);
+          } catch {
+            // Not scored
+          }
+          collector.calls.push({
+            filename: item.name,
+            folder: path.relative(collector.baseFolder, folder) || '.',
+            timestamp: metadata.timestamp,
+            phoneNumber: metadata.phoneNumber,
+            callType: metadata.callType,
+            duration: row.duration,
+            analysis
+          });
+          collector.rows.push(row);
+        }
+
         csvData.push(row);
-        if (aggregate) aggregate.push(row);
         processedCount++;
       } else {
         console.log(`❌ SKIPPING: ${item.name} (unsupported format: ${ext})`);
@@ -445,15 +1075,17 @@ async function processFolderForSummary(folder: string, extensions: string[], agg
 
   // Generate CSV file
   if (csvData.length > 0) {
-    await generateCsvFile(folder, csvData);
+    await generateCsvFile(folder, csvData, taxonomy);
   }
 
   // Write grouped analysis arrays in this folder
   try {
     await fs.writeFile(path.join(folder, 'outgoing_calls.json'), JSON.stringify(outgoingAnalyses, null, 2), 'utf8');
     await fs.writeFile(path.join(folder, 'incoming_calls.json'), JSON.stringify(incomingAnalyses, null, 2), 'utf8');
-    await fs.writeFile(path.join(folder, 'deactivation_calls.json'), JSON.stringify(deactivationAnalyses, null, 2), 'utf8');
-    console.log('📦 Grouped JSON written (outgoing_calls.json, incoming_calls.json, deactivation_calls.json)');
+    for (const [group, analyses] of groupedAnalyses) {
+      await fs.writeFile(path.join(folder, `${group}_calls.json`), JSON.stringify(analyses, null, 2), 'utf8');
+    }
+    console.log(`📦 Grouped JSON written (${['outgoing', 'incoming', ...groupedAnalyses.keys()].map(g => `${g}_calls.json`).join(', ')})`);
   } catch (e) {
     console.warn(`⚠️  Failed writing grouped JSON in ${folder}`);
   }
@@ -620,7 +1252,7 @@ function parseCsvLine(line: string): string[] {
   return result;
 }
 
-async function processOverviewAtBase(baseFolder: string): Promise<void> {
+async function processOverviewAtBase(baseFolder: string, taxonomy: Taxonomy): Promise<void> {
   console.log(`\n${'='.repeat(80)}`);
   console.log(`📂 OVERVIEW - SCANNING DIRECTORY TREE: ${baseFolder}`);
   console.log(`${'='.repeat(80)}`);
@@ -737,7 +1369,7 @@ async function processOverviewAtBase(baseFolder: string): Promise<void> {
         try {
           if (idxTimestamp >= 0 && durationStr) {
             const ts = (r[idxTimestamp] || '').trim();
-            const hour = extractHour(ts);
+            const hour = extractHour(ts, filenameParserFactory.getBusinessTimezone());
             if (hour !== null) {
               hourBuckets[hour].totalSeconds += hmsToSeconds(durationStr);
               hourBuckets[hour].calls += 1;
@@ -808,7 +1440,7 @@ async function processOverviewAtBase(baseFolder: string): Promise<void> {
     const hourPath = path.join(baseFolder, 'overview-by-hour.csv');
     let hourCsv = hourHeaders.join(',') + '\n' + hourRows.map(r => r.join(',')).join('\n') + '\n';
     await fs.writeFile(hourPath, hourCsv, 'utf8');
-    console.log(`📊 Hourly overview generated: ${hourPath}`);
+    console.log(`📊 Hourly overview generated: ${hourPath} (hours in ${filenameParserFactory.getBusinessTimezone()})`);
     printTableToConsole(hourHeaders, hourRows);
   } catch (e) {
     console.warn(`⚠️  Could not generate hourly overview: ${e instanceof Error ? e.message : String(e)}`);
@@ -817,7 +1449,7 @@ async function processOverviewAtBase(baseFolder: string): Promise<void> {
   try {
     const outgoingAll: any[] = [];
     const incomingAll: any[] = [];
-    const deactivationAll: any[] = [];
+    const groupedAll = new Map<string, any[]>(taxonomy.groups.map(g => [g, []]));
 
     for (const s of summaryFiles) {
       try {
@@ -828,13 +1460,27 @@ async function processOverviewAtBase(baseFolder: string): Promise<void> {
             try {
               const content = await fs.readFile(p, 'utf8');
               const obj = JSON.parse(content);
+              if (obj && 'raw_response' in obj) continue;
               const baseName = it.name.replace(/_analysis\.json$/i, '');
-              const meta = filenameParserFactory.parseFilenameMetadata(baseName);
-              const isDeactivation = Array.isArray(obj.call_tags) && obj.call_tags.some((t: any) => String(t?.tag ?? '').toLowerCase() === 'deactivation');
-              const withMeta = { filename: baseName, callType: meta.callType, timestamp: meta.timestamp, phoneNumber: meta.phoneNumber, ...obj };
+              const recording = items.find(r => r.isFile() && r.name !== it.name && path.basename(r.name, path.extname(r.name)) === baseName
+                && ['.mp3', '.wav', '.mp4', '.m4a', '.flac', '.ogg', '.amr'].includes(path.extname(r.name).toLowerCase()));
+              const meta = recording
+                ? await filenameParserFactory.parseFileMetadata(path.join(s.folder, recording.name))
+                : filenameParserFactory.parseFilenameMetadata(baseName);
+              const group = taxonomy.groupOf(getAnalysisTags(obj));
+              const withMeta = {
+                filename: baseName,
+                callType: meta.callType,
+                timestamp: meta.timestamp,
+                phoneNumber: meta.phoneNumber,
+                agent: meta.agent,
+                disposition: meta.disposition,
+                customerId: meta.customerId,
+                ...obj
+              };
               const ctLower = (meta.callType || '').toLowerCase();
-              if (isDeactivation) {
-                deactivationAll.push(withMeta);
+              if (group) {
+                groupedAll.get(group)!.push(withMeta);
               } else if (ctLower.includes('outgoing')) {
                 outgoingAll.push(withMeta);
               } else if (ctLower.includes('incoming') || ctLower.includes('incomming')) {
@@ -848,8 +1494,10 @@ async function processOverviewAtBase(baseFolder: string): Promise<void> {
 
     await fs.writeFile(path.join(baseFolder, 'outgoing_calls.json'), JSON.stringify(outgoingAll, null, 2), 'utf8');
     await fs.writeFile(path.join(baseFolder, 'incoming_calls.json'), JSON.stringify(incomingAll, null, 2), 'utf8');
-    await fs.writeFile(path.join(baseFolder, 'deactivation_calls.json'), JSON.stringify(deactivationAll, null, 2), 'utf8');
-    console.log('📦 Grouped JSON written at base (outgoing_calls.json, incoming_calls.json, deactivation_calls.json)');
+    for (const [group, analyses] of groupedAll) {
+      await fs.writeFile(path.join(baseFolder, `${group}_calls.json`), JSON.stringify(analyses, null, 2), 'utf8');
+    }
+    console.log(`📦 Grouped JSON written at base (${['outgoing', 'incoming', ...groupedAll.keys()].map(g => `${g}_calls.json`).join(', ')})`);
   } catch (e) {
     console.warn(`⚠️  Could not build grouped analysis JSON at base: ${e instanceof Error ? e.message : String(e)}`);
   }
@@ -864,7 +1512,7 @@ function secondsToHms(totalSeconds: number): string {
   return `${pad(hh)}:${pad(mm)}:${pad(ss)}`;
 }
 
-function printTableToConsole(headers: string[], rows: string[][]): void {
+function printTableToConsole(headers: string[], rows: string[][], title: string = 'Overview'): void {
   // Compute column widths
   const widths = headers.map((h, i) => {
     const colVals = rows.map(r => (r[i] ?? '').replace(/^"|"$/g, ''));
@@ -876,7 +1524,7 @@ function printTableToConsole(headers: string[], rows: string[][]): void {
       .map((c, i) => (c.replace(/^"|"$/g, '')).padEnd(widths[i]))
       .join('  ');
 
-  console.log('\nOverview');
+  console.log(`\n${title}`);
   console.log(fmtRow(headers));
   console.log(widths.map(w => '-'.repeat(w)).join('  '));
   for (const r of rows) {
@@ -884,30 +1532,27 @@ function printTableToConsole(headers: string[], rows: string[][]): void {
   }
 }
 
-function extractHour(ts: string): number | null {
-  // Timestamp format expected: YYYY-MM-DD HH:MM:SS (UTC-based from toISOString())
-  // Safely parse hour component
-  try {
-    if (!ts || ts.length < 13) return null;
-    const hourStr = ts.substring(11, 13);
-    const hr = parseInt(hourStr, 10);
-    if (isNaN(hr) || hr < 0 || hr > 23) return null;
-    return hr;
-  } catch {
-    return null;
-  }
+function extractHour(ts: string, timeZone: string): number | null {
+  // ISO 8601 with offset; summaries written before timestamps carried an offset
+  // (YYYY-MM-DD HH:MM:SS) are read as wall-clock time in the business timezone
+  const date = parseCallTimestamp(ts, timeZone);
+  return date ? hourInTimezone(date, timeZone) : null;
 }
 
-async function processFolderForAnalysis(folder: string, provider: AnalysisProvider, options: TranscribeOptions): Promise<void> {
+async function processFolderForAnalysis(folder: string, provider: AnalysisProvider, promptRegistry: PromptRegistry, options: TranscribeOptions): Promise<void> {
   console.log(`\n${'='.repeat(80)}`);
   console.log(`📂 ANALYSIS - SCANNING DIRECTORY: ${folder}`);
   console.log(`${'='.repeat(80)}`);
 
   const items = await fs.readdir(folder, { withFileTypes: true });
   console.log(`📋 Found ${items.length} items in ${folder}\n`);
+  const state = await ProcessingStateStore.load(folder);
+  const inputMode = getAnalysisInputMode(options);
+  const grounding = getGroundingConfig(options);
 
   let processedCount = 0;
   let skippedCount = 0;
+  let failedCount = 0;
   let dirCount = 0;
 
   for (const item of items) {
@@ -916,7 +1561,7 @@ async function processFolderForAnalysis(folder: string, provider: AnalysisProvid
     if (item.isDirectory()) {
       console.log(`📁 Entering subdirectory: ${fullPath}`);
       dirCount++;
-      await processFolderForAnalysis(fullPath, provider, options);
+      await processFolderForAnalysis(fullPath, provider, promptRegistry, options);
     } else if (item.isFile()) {
       const ext = path.extname(item.name).toLowerCase();
       if (['.mp3', '.wav', '.mp4', '.m4a', '.flac', '.ogg', '.amr'].includes(ext)) {
@@ -924,7 +1569,39 @@ async function processFolderForAnalysis(folder: string, provider: AnalysisProvid
         console.log(`🔍 ANALYZING FILE: ${item.name}`);
         console.log(`${'-'.repeat(60)}`);
 
-        // Enforce file size window for analysis (default min 1 KB, max 2 MB, configurable)
+        const jsonPath = path.join(folder, path.basename(item.name, ext) + '_analysis.json');
+        const errorPath = path.join(folder, path.basename(item.name, ext) + '_error.json');
+        const existing = await readAnalysisJson(jsonPath);
+        const prompt = await promptRegistry.resolve({
+          audioPath: fullPath,
+          callType: (await filenameParserFactory.parseFileMetadata(fullPath)).callType,
+          tags: getAnalysisTags(existing)
+        });
+
+        const staleReason = options.reanalyseStale && existing
+          ? getStaleReason(existing, prompt, provider.getModelInfo(inputMode), inputMode)
+          : null;
+        if (staleReason) {
+          console.log(`♻️  STALE: ${staleReason}; re-analysing`);
+        }
+        const needed = staleReason !== null || await needsProcessing(state, item.name, 'analysis', jsonPath, options, async () => {
+          // Older runs only left an _error.json behind
+          if (await pathExists(jsonPath)) return null;
+          try {
+            const errorData = JSON.parse(await fs.readFile(errorPath, 'utf8'));
+            return String(errorData?.error ?? 'Unknown error');
+          } catch {
+            return null;
+          }
+        });
+        if (!needed) {
+          skippedCount++;
+          continue;
+        }
+
+        // Enforce file size window for analysis (default min 1 KB, max 2 MB, configurable).
+        // The maximum only exists because audio is sent inline, so transcript input and
+        // providers that upload large files (Gemini Files API) ignore it.
         try {
           const cfgMinKb = parseFloat(String(options.analysisMinKb ?? process.env.ANALYSIS_MIN_KB ?? '1'));
           const effectiveMinKb = isNaN(cfgMinKb) || cfgMinKb < 0 ? 1 : cfgMinKb;
@@ -935,11 +1612,13 @@ async function processFolderForAnalysis(folder: string, provider: AnalysisProvid
           const stat = await fs.stat(fullPath);
           if (stat.size < minBytes) {
             console.log(`⏭️  SKIPPING: File size ${(stat.size / 1024).toFixed(2)} KB is below analysis minimum of ${effectiveMinKb} KB`);
+            await state.markSkipped(item.name, 'analysis', `File size ${(stat.size / 1024).toFixed(2)} KB below ${effectiveMinKb} KB minimum`);
             skippedCount++;
             continue;
           }
-          if (stat.size > maxBytes) {
+          if (inputMode === 'audio' && stat.size > maxBytes && !provider.supportsLargeAudio?.()) {
             console.log(`⏭️  SKIPPING: File size ${(stat.size / (1024 * 1024)).toFixed(2)} MB exceeds analysis limit of ${effectiveMb} MB`);
+            await state.markSkipped(item.name, 'analysis', `File size ${(stat.size / (1024 * 1024)).toFixed(2)} MB above ${effectiveMb} MB limit`);
             skippedCount++;
             continue;
           }
@@ -957,6 +1636,7 @@ async function processFolderForAnalysis(folder: string, provider: AnalysisProvid
             const seconds = (parseInt(hh || '0') * 3600) + (parseInt(mm || '0') * 60) + parseInt(ss || '0');
             if (seconds < effectiveMinSec) {
               console.log(`⏭️  SKIPPING: Duration ${durationStr} is under ${effectiveMinSec} seconds`);
+              await state.markSkipped(item.name, 'analysis', `Duration ${durationStr} under ${effectiveMinSec} seconds`);
               skippedCount++;
               continue;
             }
@@ -967,16 +1647,85 @@ async function processFolderForAnalysis(folder: string, provider: AnalysisProvid
           console.warn('⚠️  Could not determine duration; proceeding with analysis');
         }
 
-        const jsonPath = path.join(folder, path.basename(item.name, ext) + '_analysis.json');
-        try {
-          await fs.access(jsonPath);
-          console.log(`⏭️  SKIPPING: Analysis already exists`);
+        const input = await loadAnalysisInput(fullPath, inputMode, prompt);
+        if (!input) {
+          console.log('⏭️  SKIPPING: No usable transcript found; transcribe this file first');
+          await state.markSkipped(item.name, 'analysis', 'No usable transcript for transcript input');
           skippedCount++;
-        } catch {
-          console.log(`🔍 STARTING ANALYSIS...`);
-          console.log(`🔧 Service: ${provider.name}`);
-          await provider.analyzeTranscription(fullPath);
+          continue;
+        }
+
+        const audioSeconds = inputMode === 'audio' ? await getAudioSeconds(fullPath) : null;
+        const [nextModel] = provider.getModelInfo(inputMode);
+        usageLedger?.assertWithinBudget({ stage: 'analysis', provider: nextModel.provider, model: nextModel.model, audioSeconds });
+
+        console.log(`🔍 STARTING ANALYSIS...`);
+        console.log(`🔧 Service: ${provider.name}`);
+        console.log(`📜 Prompt: ${prompt.name} (${prompt.hash.slice(0, 19)})`);
+        if (input.transcriptPath) {
+          console.log(`📝 Transcript: ${path.basename(input.transcriptPath)}`);
+        }
+        await state.markPending(item.name, 'analysis', { provider: provider.name });
+        try {
+          const result = await provider.analyzeTranscription(input);
+          if (result.provider) {
+            console.log(`🏷️  Analysis produced by: ${result.provider}`);
+          }
+          if (!result.metadata || 'raw_response' in result.metadata) {
+            throw new ProviderCallError('Analysis returned no parseable JSON', result.usage ?? []);
+          }
+          if (result.validation && !result.validation.valid) {
+            console.warn(`⚠️  Saving analysis with ${result.validation.errors.length} schema error(s); dropped: ${result.validation.dropped.join(', ') || 'none'}`);
+          }
+          const usage = recordUsage(folder, item.name, 'analysis', result.usage ?? [], audioSeconds);
+          let analysisData = result.metadata;
+          let groundingReport;
+          if (grounding.mode !== 'off') {
+            // Audio input has no transcript in hand; use the one on disk if there is one
+            const transcriptText = input.transcriptText ?? (await loadTranscriptText(fullPath))?.text ?? null;
+            ({ analysis: analysisData, report: groundingReport } = groundAnalysis(analysisData, transcriptText, grounding));
+            if (!groundingReport.checked) {
+              console.log(`ℹ️  Quote grounding skipped: ${groundingReport.reason}`);
+            } else if (groundingReport.ungrounded.length > 0) {
+              console.warn(`⚠️  ${groundingReport.ungrounded.length}/${groundingReport.items} quote(s) not found in transcript${grounding.mode === 'drop' ? ' (dropped)' : ''}`);
+            } else {
+              console.log(`✅ All ${groundingReport.items} quote(s) found in transcript`);
+            }
+          }
+          const analysis = {
+            ...analysisData,
+            validation: result.validation,
+            grounding: groundingReport,
+            provenance: buildProvenance({
+              prompt,
+              provider: result.provider ?? provider.name,
+              model: result.model,
+              mode: inputMode,
+              transcriptSource: input.transcriptPath ? path.basename(input.transcriptPath) : undefined,
+              usage
+            })
+          };
+          const archived = await archiveAnalysis(jsonPath);
+          if (archived) {
+            console.log(`🗄️  Previous analysis kept as ${path.basename(archived)}`);
+          }
+          await fs.writeFile(jsonPath, JSON.stringify(analysis, null, 2), 'utf8');
+          console.log(`✅ Analysis saved to ${jsonPath}`);
+          await fs.unlink(errorPath).catch(() => {});
+          await state.markOk(item.name, 'analysis', { provider: result.provider ?? provider.name, model: result.model, usage });
           processedCount++;
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`❌ ANALYSIS FAILED: ${message}`);
+          const usage = recordFailedUsage(folder, item.name, 'analysis', error, audioSeconds);
+          try {
+            await fs.writeFile(errorPath, JSON.stringify({ error: message }, null, 2), 'utf8');
+            console.log(`💾 Saved error analysis to: ${errorPath}`);
+          } catch {
+            console.error('❌ Could not write error analysis to file');
+          }
+          await state.markFailed(item.name, 'analysis', message, { provider: provider.name, usage });
+          failedCount++;
         }
       } else {
         console.log(`❌ SKIPPING: ${item.name} (unsupported format: ${ext})`);
@@ -988,10 +1737,428 @@ async function processFolderForAnalysis(folder: string, provider: AnalysisProvid
   console.log(`📊 ANALYSIS SUMMARY: ${folder}`);
   console.log(`   • Processed: ${processedCount} files`);
   console.log(`   • Skipped: ${skippedCount} files`);
+  console.log(`   • Failed: ${failedCount} files`);
   console.log(`   • Subdirectories: ${dirCount}`);
   console.log(`${'='.repeat(80)}\n`);
 }
 
+async function processFolderForScorecard(folder: string, provider: AnalysisProvider, rubric: Rubric, prompt: AnalysisPrompt, options: TranscribeOptions): Promise<void> {
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`📂 SCORECARD - SCANNING DIRECTORY: ${folder}`);
+  console.log(`${'='.repeat(80)}`);
+
+  const items = await fs.readdir(folder, { withFileTypes: true });
+  const state = await ProcessingStateStore.load(folder);
+  const inputMode = getAnalysisInputMode(options);
+  // One folder per agent, as in overview.csv, unless the filename names the agent
+  const folderAgent = path.basename(path.resolve(folder));
+
+  let processedCount = 0;
+  let skippedCount = 0;
+  let failedCount = 0;
+
+  for (const item of items) {
+    const fullPath = path.join(folder, item.name);
+
+    if (item.isDirectory()) {
+      await processFolderForScorecard(fullPath, provider, rubric, prompt, options);
+      continue;
+    }
+    const ext = path.extname(item.name).toLowerCase();
+    if (!item.isFile() || !['.mp3', '.wav', '.mp4', '.m4a', '.flac', '.ogg', '.amr'].includes(ext)) continue;
+
+    // Only calls that passed the analysis window (and were analysed) are scored
+    const analysisPath = path.join(folder, path.basename(item.name, ext) + '_analysis.json');
+    if (!(await readAnalysisJson(analysisPath))) continue;
+
+    console.log(`\n${'-'.repeat(60)}`);
+    console.log(`📋 SCORING FILE: ${item.name}`);
+    console.log(`${'-'.repeat(60)}`);
+
+    const scorecardPath = path.join(folder, path.basename(item.name, ext) + '_scorecard.json');
+    const existing = await readAnalysisJson(scorecardPath);
+    const staleReason = options.reanalyseStale && existing
+      ? getStaleReason(existing, prompt, provider.getModelInfo(inputMode), inputMode)
+      : null;
+    if (staleReason) {
+      console.log(`♻️  STALE: ${staleReason}; re-scoring`);
+    }
+    const needed = staleReason !== null || await needsProcessing(state, item.name, 'scorecard', scorecardPath, options, async () => null);
+    if (!needed) {
+      skippedCount++;
+      continue;
+    }
+
+    const input = await loadAnalysisInput(fullPath, inputMode, prompt);
+    if (!input) {
+      console.log('⏭️  SKIPPING: No usable transcript found; transcribe this file first');
+      await state.markSkipped(item.name, 'scorecard', 'No usable transcript for transcript input');
+      skippedCount++;
+      continue;
+    }
+
+    const audioSeconds = inputMode === 'audio' ? await getAudioSeconds(fullPath) : null;
+    const [nextModel] = provider.getModelInfo(inputMode);
+    usageLedger?.assertWithinBudget({ stage: 'scorecard', provider: nextModel.provider, model: nextModel.model, audioSeconds });
+
+    console.log(`🔧 Service: ${provider.name}`);
+    console.log(`📜 Rubric: ${rubric.name} (${prompt.hash.slice(0, 19)})`);
+    await state.markPending(item.name, 'scorecard', { provider: provider.name });
+    try {
+      const result = await provider.analyzeTranscription(input);
+      if (!result.metadata || 'raw_response' in result.metadata) {
+        throw new ProviderCallError('Scorecard returned no parseable JSON', result.usage ?? []);
+      }
+      const usage = recordUsage(folder, item.name, 'scorecard', result.usage ?? [], audioSeconds);
+      if (result.validation && !result.validation.valid) {
+        console.warn(`⚠️  Saving scorecard with ${result.validation.errors.length} schema error(s)`);
+      }
+      const scorecard = {
+        ...buildScorecard(result.metadata, rubric, prompt.hash, (await filenameParserFactory.parseFileMetadata(fullPath)).agent || folderAgent),
+        filename: item.name,
+        validation: result.validation,
+        provenance: buildProvenance({
+          prompt,
+          provider: result.provider ?? provider.name,
+          model: result.model,
+          mode: inputMode,
+          transcriptSource: input.transcriptPath ? path.basename(input.transcriptPath) : undefined,
+          usage
+        })
+      };
+      const archived = await archiveAnalysis(scorecardPath);
+      if (archived) {
+        console.log(`🗄️  Previous scorecard kept as ${path.basename(archived)}`);
+      }
+      await fs.writeFile(scorecardPath, JSON.stringify(scorecard, null, 2), 'utf8');
+      const overall = scorecard.overall_score === null ? 'n/a' : scorecard.overall_score;
+      const passed = scorecard.passed === null ? 'n/a' : scorecard.passed ? 'pass' : 'fail';
+      console.log(`✅ Scorecard saved to ${scorecardPath} (score ${overall}, ${passed})`);
+      await state.markOk(item.name, 'scorecard', { provider: result.provider ?? provider.name, model: result.model, usage });
+      processedCount++;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ SCORECARD FAILED: ${message}`);
+      const usage = recordFailedUsage(folder, item.name, 'scorecard', error, audioSeconds);
+      await state.markFailed(item.name, 'scorecard', message, { provider: provider.name, usage });
+      failedCount++;
+    }
+  }
+
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`📊 SCORECARD SUMMARY: ${folder}`);
+  console.log(`   • Scored: ${processedCount} files`);
+  console.log(`   • Skipped: ${skippedCount} files`);
+  console.log(`   • Failed: ${failedCount} files`);
+  console.log(`${'='.repeat(80)}\n`);
+}
+
+async function readAnalysisJson(analysisPath: string): Promise<Record<string, any> | null> {
+  try {
+    const analysis = JSON.parse(await fs.readFile(analysisPath, 'utf8'));
+    return analysis && typeof analysis === 'object' && !('raw_response' in analysis) ? analysis : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tags from an earlier analysis of the same recording, for prompt rules that match on `tag`.
+ */
+function getAnalysisTags(analysis: Record<string, any> | null): string[] {
+  return Array.isArray(analysis?.call_tags)
+    ? analysis!.call_tags.map((t: any) => String(t?.tag ?? '')).filter((t: string) => t.length > 0)
+    : [];
+}
+
+/**
+ * Move an existing `<name>_analysis.json` to the next free `<name>_analysis.vN.json`
+ * so re-analysis keeps the history. Returns the new path, or null if there was nothing to keep.
+ */
+async function archiveAnalysis(analysisPath: string): Promise<string | null> {
+  if (!(await pathExists(analysisPath))) return null;
+  const base = analysisPath.replace(/\.json$/i, '');
+  let version = 1;
+  while (await pathExists(`${base}.v${version}.json`)) version++;
+  const archivedPath = `${base}.v${version}.json`;
+  await fs.rename(analysisPath, archivedPath);
+  return archivedPath;
+}
+
+/**
+ * Decide whether a stage still has to run for a file. Reconciles the state
+ * manifest with outputs written by runs that predate it: an existing output is
+ * recorded as ok, and `detectLegacyFailure` can turn an old error marker into a
+ * failed entry. Failed files are only retried with --retry-failed.
+ */
+async function needsProcessing(
+  state: ProcessingStateStore,
+  filename: string,
+  stage: StageName,
+  outputPath: string,
+  options: TranscribeOptions,
+  detectLegacyFailure: () => Promise<string | null>
+): Promise<boolean> {
+  let current = state.get(filename, stage);
+
+  if (!current || current.status === 'skipped') {
+    const legacyFailure = await detectLegacyFailure();
+    if (legacyFailure) {
+      await state.markFailed(filename, stage, legacyFailure);
+    } else if (!current && await pathExists(outputPath)) {
+      await state.markOk(filename, stage, { reason: 'Output existed before state tracking' });
+    }
+    current = state.get(filename, stage);
+  }
+
+  if (current?.status === 'ok') {
+    if (await pathExists(outputPath)) {
+      console.log(`⏭️  SKIPPING: ${stage.charAt(0).toUpperCase() + stage.slice(1)} already completed`);
+      return false;
+    }
+    console.log(`ℹ️  Output missing although state says ok; re-running ${stage}`);
+    return true;
+  }
+
+  if (current?.status === 'failed') {
+    if (options.retryFailed) {
+      console.log(`🔁 RETRYING: Previous ${stage} failed after ${current.attempts} attempt(s): ${current.reason ?? 'unknown reason'}`);
+      return true;
+    }
+    console.log(`⏭️  SKIPPING: Previous ${stage} failed (${current.reason ?? 'unknown reason'}); use --retry-failed to retry`);
+    return false;
+  }
+
+  // New, pending (interrupted run) or previously skipped by the analysis window
+  return true;
+}
+
+async function pathExists(p: string): Promise<boolean> {
+  try {
+    await fs.access(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function processStatus(baseFolder: string): Promise<void> {
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`📂 STATUS - SCANNING DIRECTORY TREE: ${baseFolder}`);
+  console.log(`${'='.repeat(80)}`);
+
+  const stages: StageName[] = ['transcription', 'analysis', 'scorecard'];
+  const statuses: Array<StageStatus | 'untracked'> = ['ok', 'failed', 'skipped', 'pending', 'untracked'];
+  const counts: Record<StageName, Record<string, number>> = {
+    transcription: Object.fromEntries(statuses.map(st => [st, 0])),
+    analysis: Object.fromEntries(statuses.map(st => [st, 0])),
+    scorecard: Object.fromEntries(statuses.map(st => [st, 0]))
+  };
+  const failures: string[][] = [];
+  let totalFiles = 0;
+
+  async function walk(folder: string) {
+    const items = await fs.readdir(folder, { withFileTypes: true });
+    const audioFiles = items.filter(it => it.isFile() && ['.mp3', '.wav', '.mp4', '.m4a', '.flac', '.ogg', '.amr'].includes(path.extname(it.name).toLowerCase()));
+    if (audioFiles.length > 0) {
+      const state = await ProcessingStateStore.load(folder);
+      for (const file of audioFiles) {
+        totalFiles++;
+        for (const stage of stages) {
+          const entry = state.get(file.name, stage);
+          counts[stage][entry?.status ?? 'untracked']++;
+          if (entry?.status === 'failed') {
+            failures.push([
+              `"${path.relative(baseFolder, path.join(folder, file.name))}"`,
+              `"${stage}"`,
+              `"${entry.attempts}"`,
+              `"${entry.provider ?? ''}"`,
+              `"${(entry.reason ?? '').replace(/\s+/g, ' ').slice(0, 80)}"`
+            ]);
+          }
+        }
+      }
+    }
+    for (const item of items) {
+      if (item.isDirectory()) await walk(path.join(folder, item.name));
+    }
+  }
+
+  await walk(baseFolder);
+
+  console.log(`🎵 Recordings found: ${totalFiles}`);
+  const countHeaders = ['Stage', ...statuses.map(st => st.charAt(0).toUpperCase() + st.slice(1))];
+  const countRows = stages.map(stage => [`"${stage}"`, ...statuses.map(st => `"${counts[stage][st]}"`)]);
+  printTableToConsole(countHeaders, countRows, 'Processing Status');
+
+  if (failures.length > 0) {
+    printTableToConsole(['File', 'Stage', 'Attempts', 'Provider', 'Reason'], failures, 'Failures');
+    console.log('\n💡 Re-run with --retry-failed to retry these files');
+  } else {
+    console.log('\n✅ No failures recorded');
+  }
+}
+
+/**
+ * Analyse every labelled item of a golden set (`<name>.expected.json` next to
+ * `<name>.<ext>` and/or `<name>.txt` / `<name>.transcript.json`) and score the
+ * predictions. Nothing is written next to the items except the run JSON.
+ */
+async function processEval(folder: string, options: EvalOptions): Promise<void> {
+  console.log(`\n${'='.repeat(80)}`);
+  console.log(`📂 EVAL - GOLDEN SET: ${folder}`);
+  console.log(`${'='.repeat(80)}`);
+
+  const entries = (await fs.readdir(folder, { withFileTypes: true })).filter(e => e.isFile()).map(e => e.name);
+  const names = entries.filter(f => f.endsWith('.expected.json')).map(f => f.slice(0, -'.expected.json'.length)).sort();
+  if (names.length === 0) {
+    throw new Error(`No <name>.expected.json labels found in ${folder}`);
+  }
+
+  const inputMode = getAnalysisInputMode(options);
+  const grounding = getGroundingConfig(options);
+  await configureFilenameParsers(options);
+  const taxonomy = await loadTaxonomy(options);
+  const promptRegistry = await loadPromptRegistry(options);
+  // Evals measure the chosen services, so RULES_PREFILTER from the environment does not apply
+  const provider = await createAnalysisChain({ ...options, rulesPrefilter: false });
+  console.log(`🔧 Service: ${provider.name}`);
+  console.log(`📥 Analysis input: ${inputMode}`);
+  console.log(`📋 Labelled items: ${names.length}`);
+
+  const items: EvalItem[] = [];
+  const prompts = new Map<string, string>();
+  for (const name of names) {
+    console.log(`\n${'-'.repeat(60)}`);
+    console.log(`🧪 EVALUATING: ${name}`);
+    console.log(`${'-'.repeat(60)}`);
+
+    const expectedPath = path.join(folder, `${name}.expected.json`);
+    let expected;
+    try {
+      expected = extractLabels(JSON.parse(await fs.readFile(expectedPath, 'utf8')));
+    } catch (error: unknown) {
+      throw new Error(`Could not read labels ${expectedPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const recording = entries.find(f => path.basename(f, path.extname(f)) === name && ['.mp3', '.wav', '.mp4', '.m4a', '.flac', '.ogg', '.amr'].includes(path.extname(f).toLowerCase()));
+    // Transcript-only items have no recording; a stand-in extension keeps dotted names (e.g. "Call 12.05.2025") whole
+    const audioPath = path.join(folder, recording ?? `${name}.txt`);
+    const prompt = await promptRegistry.resolve({ audioPath, callType: filenameParserFactory.parseFilenameMetadata(recording ?? name).callType });
+    prompts.set(prompt.name, prompt.hash);
+
+    const item: EvalItem = { name, expected, predicted: null };
+    try {
+      if (inputMode === 'audio' && !recording) {
+        throw new Error('No recording for audio input');
+      }
+      const input = await loadAnalysisInput(audioPath, inputMode, prompt);
+      if (!input) {
+        throw new Error('No usable transcript for transcript input');
+      }
+      const result = await provider.analyzeTranscription(input);
+      if (!result.metadata || 'raw_response' in result.metadata) {
+        throw new Error('Analysis returned no parseable JSON');
+      }
+      item.predicted = extractLabels(result.metadata);
+      item.provider = result.provider ?? provider.name;
+      item.model = result.model;
+
+      const transcriptText = input.transcriptText ?? (await loadTranscriptText(audioPath))?.text ?? null;
+      const { report } = groundAnalysis(result.metadata, transcriptText, { mode: 'flag', threshold: grounding.threshold });
+      if (report.checked) {
+        item.quotes = report.items;
+        item.grounded = report.items - report.ungrounded.length;
+      }
+      console.log(`✅ Predicted: ${item.predicted.sentiment ?? '-'} / ${item.predicted.payment_intent ?? '-'} / tags: ${item.predicted.call_tags.join(', ') || 'none'}`);
+    } catch (error: unknown) {
+      item.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ EVAL ITEM FAILED: ${item.error}`);
+    }
+    items.push(item);
+  }
+
+  const createdAt = new Date().toISOString();
+  const run: EvalRun = {
+    run_id: options.label ? `${createdAt}-${options.label}` : createdAt,
+    label: options.label,
+    created_at: createdAt,
+    golden_set: path.resolve(folder),
+    config: {
+      provider: provider.name,
+      models: provider.getModelInfo(inputMode).map(m => `${m.provider}/${m.model}`),
+      prompt: [...prompts.keys()].join(', '),
+      prompt_hash: [...prompts.values()].join(', '),
+      analysis_input: inputMode,
+      taxonomy_hash: taxonomy.hash
+    },
+    items,
+    metrics: computeMetrics(items)
+  };
+
+  const outputPath = options.output
+    || path.join(folder, 'eval_runs', `${run.run_id.replace(/[:.]/g, '-').replace(/[^\w-]+/g, '_')}.json`);
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, JSON.stringify(run, null, 2), 'utf8');
+
+  printEvalMetrics(run.metrics);
+  console.log(`\n💾 Run saved to ${outputPath}`);
+
+  if (options.baseline) {
+    printEvalDiff(diffRuns(await readEvalRun(options.baseline), run));
+  }
+}
+
+async function readEvalRun(runPath: string): Promise<EvalRun> {
+  try {
+    const run = JSON.parse(await fs.readFile(runPath, 'utf8')) as EvalRun;
+    if (!run?.metrics || !Array.isArray(run.items)) throw new Error('not an eval run file');
+    return run;
+  } catch (error: unknown) {
+    throw new Error(`Could not read eval run ${runPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+function printEvalMetrics(metrics: EvalMetrics): void {
+  console.log(`\n📊 Items: ${metrics.items} (${metrics.failed} failed; failed items count as misses)`);
+  printTableToConsole(
+    ['Field', 'Correct', 'Labelled', 'Accuracy'],
+    metrics.fields.map(f => [f.field, String(f.correct), String(f.total), formatScore(f.accuracy)]),
+    'Field Accuracy'
+  );
+
+  const labelRows = (key: 'call_tags' | 'concerns') => [...metrics[key], metrics[`${key}_micro`]].map(s => [
+    key, s.label, String(s.tp), String(s.fp), String(s.fn), formatScore(s.precision), formatScore(s.recall), formatScore(s.f1)
+  ]);
+  printTableToConsole(
+    ['Field', 'Label', 'TP', 'FP', 'FN', 'Precision', 'Recall', 'F1'],
+    [...labelRows('call_tags'), ...labelRows('concerns')],
+    'Tags and Concerns'
+  );
+
+  console.log(`\n🔎 Quote grounding: ${metrics.grounded}/${metrics.quotes} quote(s) found in the transcript (${formatScore(metrics.grounding_rate)})`);
+}
+
+function printEvalDiff(diff: EvalDiff): void {
+  const signed = (value: number | null) => (value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(3)}`);
+  const rows = [...diff.fields, ...diff.labels, diff.grounding]
+    .map(c => [c.name, formatScore(c.before), formatScore(c.after), signed(c.delta)]);
+  printTableToConsole(['Metric', 'Before', 'After', 'Delta'], rows, `Eval Diff: ${diff.before} → ${diff.after}`);
+
+  if (diff.items.length > 0) {
+    printTableToConsole(
+      ['Item', 'Field', 'Expected', 'Before', 'After'],
+      diff.items.map(i => [i.name, i.field, i.expected, i.before, i.after]),
+      'Changed Predictions'
+    );
+  } else {
+    console.log('\n✅ No predictions changed');
+  }
+}
+
 async function getAudioDuration(filePath: string): Promise<string | null> {
   const execAsync = promisify(exec);
 
@@ -1015,7 +2182,7 @@ async function getAudioDuration(filePath: string): Promise<string | null> {
 }
 
 
-async function generateCsvFile(folder: string, csvData: any[]): Promise<void> {
+async function generateCsvFile(folder: string, csvData: any[], taxonomy: Taxonomy): Promise<void> {
   const csvPath = path.join(folder, 'summary.csv');
 
   try {
@@ -1027,7 +2194,13 @@ async function generateCsvFile(folder: string, csvData: any[]): Promise<void> {
       'Has Analysis',
       'Timestamp',
       'Phone Number',
+      'Raw Phone Number',
+      'Phone Valid',
       'Call Type',
+      'Agent',
+      'Disposition',
+      'Customer ID',
+      'Metadata Sources',
       'Gender',
       'Sentiment',
       'Confidence',
@@ -1039,9 +2212,12 @@ async function generateCsvFile(folder: string, csvData: any[]): Promise<void> {
       'Next Best Action',
       'To-Do',
       'Concerns Count',
+      'Ungrounded Items',
       'Conversion Probability',
       'Urgency Level',
-      'Missed Opportunity'
+      'Missed Opportunity',
+      // One Yes/No column per taxonomy tag (blank without analysis)
+      ...taxonomy.values('call_tags').map(tag => `Tag: ${tag}`)
     ];
 
     const csvEscape = (val: unknown): string => {
@@ -1061,7 +2237,13 @@ async function generateCsvFile(folder: string, csvData: any[]): Promise<void> {
         csvEscape(row.hasAnalysis ? 'Yes' : 'No'),
         csvEscape(row.timestamp),
         csvEscape(row.phoneNumber),
+        csvEscape(row.rawPhoneNumber),
+        csvEscape(row.phoneValid ? 'Yes' : 'No'),
         csvEscape(row.callType),
+        csvEscape(row.agent),
+        csvEscape(row.disposition),
+        csvEscape(row.customerId),
+        csvEscape(Object.entries(row.sources ?? {}).map(([field, source]) => `${field}=${source}`).join(' | ')),
         csvEscape(row.gender),
         csvEscape(row.sentiment),
         csvEscape(row.confidence),
@@ -1073,9 +2255,11 @@ async function generateCsvFile(folder: string, csvData: any[]): Promise<void> {
         csvEscape(row.nextBestAction),
         csvEscape(row.todo),
         csvEscape(row.concernsCount),
+        csvEscape(row.ungroundedItems),
         csvEscape(row.conversionProbability),
         csvEscape(row.urgencyLevel),
-        csvEscape(row.missedOpportunity)
+        csvEscape(row.missedOpportunity),
+        ...taxonomy.values('call_tags').map(tag => csvEscape(row.tagSet ? (row.tagSet.has(tag.toLowerCase()) ? 'Yes' : 'No') : ''))
       ];
       csvContent += values.join(',') + '\n';
     }
@@ -1088,4 +2272,265 @@ async function generateCsvFile(folder: string, csvData: any[]): Promise<void> {
   }
 }
 
+/**
+ * Write `scorecard.csv` with one row per agent: calls scored and passed, the
+ * average overall score, and the average score and pass rate per criterion.
+ */
+async function generateScorecardCsvFile(folder: string, scorecards: Scorecard[]): Promise<void> {
+  const csvPath = path.join(folder, 'scorecard.csv');
+
+  try {
+    const criterionIds: string[] = [];
+    for (const card of scorecards) {
+      for (const c of card.criteria ?? []) {
+        if (!criterionIds.includes(c.id)) criterionIds.push(c.id);
+      }
+    }
+
+    const byAgent = new Map<string, Scorecard[]>();
+    for (const card of scorecards) {
+      const agent = card.agent || 'unknown';
+      byAgent.set(agent, [...(byAgent.get(agent) ?? []), card]);
+    }
+
+    const average = (values: number[]): string =>
+      values.length > 0 ? (values.reduce((a, b) => a + b, 0) / values.length).toFixed(2) : '';
+    const rate = (flags: boolean[]): string =>
+      flags.length > 0 ? `${Math.round((flags.filter(Boolean).length / flags.length) * 100)}%` : '';
+    const csvEscape = (val: unknown): string => `"${String(val ?? '').replace(/"/g, '""')}"`;
+
+    const headers = [
+      'Agent',
+      'Calls Scored',
+      'Calls Passed',
+      'Pass Rate',
+      'Average Score',
+      ...criterionIds.flatMap(id => [`${id} Avg`, `${id} Pass Rate`])
+    ];
+    const rows: string[][] = [];
+
+    for (const [agent, cards] of [...byAgent.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      const judged = cards.filter(c => typeof c.passed === 'boolean').map(c => c.passed as boolean);
+      const values = [
+        agent,
+        String(cards.length),
+        String(judged.filter(Boolean).length),
+        rate(judged),
+        average(cards.map(c => c.overall_score).filter((v): v is number => typeof v === 'number'))
+      ];
+      for (const id of criterionIds) {
+        const scores = cards.flatMap(c => (c.criteria ?? []).filter(cr => cr.id === id));
+        values.push(
+          average(scores.map(cr => cr.score).filter((v): v is number => typeof v === 'number')),
+          rate(scores.filter(cr => typeof cr.passed === 'boolean').map(cr => cr.passed as boolean))
+        );
+      }
+      rows.push(values.map(csvEscape));
+    }
+
+    await fs.writeFile(csvPath, [headers.join(','), ...rows.map(r => r.join(','))].join('\n') + '\n', 'utf8');
+    console.log(`📋 Scorecard CSV generated: ${csvPath}`);
+    printTableToConsole(headers.slice(0, 5), rows.map(r => r.slice(0, 5)), 'Agent Scorecard');
+  } catch (error) {
+    console.error(`❌ Failed to generate scorecard CSV: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Write the per-customer view at the base folder: `customers.json` with each
+ * phone number's ordered call timeline, and `customers.csv` with one row of
+ * rolled-up state per customer.
+ */
+async function generateCustomerFiles(folder: string, journeys: CustomerJourney[]): Promise<void> {
+  const csvPath = path.join(folder, 'customers.csv');
+  const jsonPath = path.join(folder, 'customers.json');
+
+  try {
+    await fs.writeFile(jsonPath, JSON.stringify(journeys, null, 2), 'utf8');
+    console.log(`👥 Customer timelines written: ${jsonPath} (${journeys.length} customers)`);
+
+    const headers = [
+      'Phone Number',
+      'Total Calls',
+      'Analysed Calls',
+      'First Contact',
+      'Last Contact',
+      'Days Since Last Call',
+      'Latest Sentiment',
+      'Sentiment Trend',
+      'Latest Payment Intent',
+      'Payment Intent Trend',
+      'Open Concerns',
+      'Open To-Dos',
+      'Last Next Best Action',
+      'Recurring Concerns',
+      'Folders'
+    ];
+
+    const csvEscape = (val: unknown): string => `"${String(val ?? '').replace(/"/g, '""')}"`;
+
+    let csvContent = headers.join(',') + '\n';
+    for (const { phoneNumber, state, concerns } of journeys) {
+      const values = [
+        phoneNumber,
+        state.total_calls,
+        state.analysed_calls,
+        state.first_contact,
+        state.last_contact,
+        state.days_since_last_call ?? '',
+        state.latest_sentiment,
+        state.sentiment_trend.join(' → '),
+        state.latest_payment_intent,
+        state.payment_intent_trend.join(' → '),
+        state.open_concerns.join(' | '),
+        state.open_todos.join(' | '),
+        state.last_next_best_action,
+        concerns.filter(c => c.calls > 1).map(c => `${c.concern} (${c.calls})`).join(' | '),
+        state.folders.join(' | ')
+      ];
+      csvContent += values.map(csvEscape).join(',') + '\n';
+    }
+
+    await fs.writeFile(csvPath, csvContent, 'utf8');
+    console.log(`👥 Customer CSV generated: ${csvPath}`);
+  } catch (error) {
+    console.error(`❌ Failed to generate customer view: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Find every recording under the invoked folder and match them all against
+ * the call log in one pass.
+ */
+async function matchCallLog(baseFolder: string, extensions: string[]): Promise<void> {
+  const recordings: string[] = [];
+  async function walk(folder: string) {
+    for (const item of await fs.readdir(folder, { withFileTypes: true })) {
+      const fullPath = path.join(folder, item.name);
+      if (item.isDirectory()) {
+        await walk(fullPath);
+      } else if (item.isFile() && extensions.includes(path.extname(item.name).toLowerCase())) {
+        recordings.push(fullPath);
+      }
+    }
+  }
+
+  await walk(baseFolder);
+  await filenameParserFactory.matchCallLog(recordings);
+  console.log(`📇 Call log: matched ${filenameParserFactory.getCallLog()!.matchedCount} of ${recordings.length} recording(s)`);
+}
+
+/**
+ * Write `call_log_unmatched.csv` in the invoked folder: recordings with no
+ * call log row (and why), call log rows no recording was matched to, and
+ * matches where another row or recording was also within the tolerance.
+ */
+async function writeCallLogReport(baseFolder: string, callLog: CallLog): Promise<void> {
+  const recordings = callLog.unmatchedRecordings();
+  const entries = callLog.unmatchedEntries();
+  const ambiguous = callLog.ambiguousMatches();
+  console.log(`📇 Call log: ${callLog.matchedCount} matched (${ambiguous.length} ambiguous), ${recordings.length} recording(s) and ${entries.length} log row(s) unmatched`);
+  const offset = (seconds: number) => `${seconds >= 0 ? '+' : ''}${seconds}s`;
+  const csvPath = path.join(baseFolder, 'call_log_unmatched.csv');
+
+  try {
+    const headers = ['Kind', 'Recording / Log Line', 'Phone Number', 'Timestamp', 'Reason'];
+    const rows = [
+      ...recordings.map(r => ['Recording', path.relative(baseFolder, r.recording), r.phoneNumber, r.timestamp, r.reason]),
+      ...entries.map(e => [
+        'Log row',
+        `${path.basename(callLog.source)}:${e.line}`,
+        e.phoneNumber,
+        e.start,
+        e.phoneNumber === 'N/A' ? 'No phone number' : e.startTime ? 'No recording matched' : 'Unreadable start time (see --call-log-date-format)'
+      ]),
+      ...ambiguous.map(a => [
+        'Ambiguous',
+        path.relative(baseFolder, a.recording),
+        a.match.entry.phoneNumber,
+        a.match.entry.start,
+        [
+          `Matched line ${a.match.entry.line} (${offset(a.match.offsetSeconds)})`,
+          ...a.otherEntries.map(o => `also line ${o.entry.line} (${offset(o.offsetSeconds)})`),
+          ...a.otherRecordings.map(r => `also ${path.relative(baseFolder, r)}`)
+        ].join('; ')
+      ])
+    ];
+    const csvEscape = (val: unknown): string => `"${String(val ?? '').replace(/"/g, '""')}"`;
+    const csvContent = [headers, ...rows].map(r => r.map(csvEscape).join(',')).join('\n') + '\n';
+    await fs.writeFile(csvPath, csvContent, 'utf8');
+    console.log(`📇 Unmatched call log report: ${csvPath}`);
+
+    if (rows.length > 0) {
+      printTableToConsole(headers, rows, 'Call Log Unmatched');
+    }
+  } catch (error) {
+    console.error(`❌ Failed to write call log report: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Append this run's usage to `costs.csv` in the invoked folder: one row per
+ * folder, stage, provider and model, then a RUN TOTAL row. Earlier runs stay
+ * in the file, told apart by the Run column (the run's start time).
+ */
+async function writeCostsCsv(baseFolder: string, ledger: UsageLedger): Promise<void> {
+  const entries = ledger.getEntries();
+  if (entries.length === 0) {
+    console.log('💰 No billable provider usage in this run');
+    return;
+  }
+  const csvPath = path.join(baseFolder, 'costs.csv');
+
+  try {
+    const headers = ['Run', 'Folder', 'Stage', 'Provider', 'Model', 'Files', 'Requests', 'Audio Minutes', 'Input Tokens', 'Output Tokens', 'Cost', 'Currency'];
+    type Rollup = { files: Set<string>; requests: number; seconds: number; input: number; output: number; cost: number };
+    const emptyRollup = (): Rollup => ({ files: new Set(), requests: 0, seconds: 0, input: 0, output: 0, cost: 0 });
+    const add = (r: Rollup, e: typeof entries[number]) => {
+      r.files.add(path.join(e.folder, e.filename));
+      r.requests++;
+      r.seconds += e.usage.audioSeconds ?? 0;
+      r.input += e.usage.inputTokens ?? 0;
+      r.output += e.usage.outputTokens ?? 0;
+      r.cost += e.cost ?? 0;
+    };
+
+    const groups = new Map<string, { key: string[]; rollup: Rollup }>();
+    const total = emptyRollup();
+    for (const e of entries) {
+      const key = [path.relative(baseFolder, e.folder) || '.', e.stage, e.usage.provider, e.usage.model ?? ''];
+      const id = key.join('\u0000');
+      if (!groups.has(id)) groups.set(id, { key, rollup: emptyRollup() });
+      add(groups.get(id)!.rollup, e);
+      add(total, e);
+    }
+
+    const csvEscape = (val: unknown): string => `"${String(val ?? '').replace(/"/g, '""')}"`;
+    const toRow = (key: string[], r: Rollup) => [
+      ledger.runId,
+      ...key,
+      r.files.size,
+      r.requests,
+      (r.seconds / 60).toFixed(2),
+      r.input,
+      r.output,
+      r.cost.toFixed(6),
+      ledger.prices.currency
+    ].map(csvEscape);
+
+    const rows = [...groups.values()]
+      .sort((a, b) => a.key.join('/').localeCompare(b.key.join('/')))
+      .map(g => toRow(g.key, g.rollup));
+    rows.push(toRow(['RUN TOTAL', '', '', ''], total));
+
+    const exists = await pathExists(csvPath);
+    const content = (exists ? '' : headers.join(',') + '\n') + rows.map(r => r.join(',')).join('\n') + '\n';
+    await fs.appendFile(csvPath, content, 'utf8');
+    console.log(`💰 Costs ${exists ? 'appended to' : 'written to'} ${csvPath}`);
+    printTableToConsole(headers.slice(1), rows.map(r => r.slice(1)), 'Run Costs');
+  } catch (error) {
+    console.error(`❌ Failed to write costs CSV: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 program.parse();
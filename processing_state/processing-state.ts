@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { UsageSummary } from '../cost_tracking/usage-ledger';
+
+export type StageName = 'transcription' | 'analysis' | 'scorecard';
+export type StageStatus = 'pending' | 'ok' | 'failed' | 'skipped';
+
+export interface StageState {
+  status: StageStatus;
+  reason?: string;
+  attempts: number;
+  provider?: string;
+  model?: string;
+  startedAt?: string;
+  updatedAt: string;
+  completedAt?: string;
+  usage?: UsageSummary; // Billable usage of the last finished attempt (failed ones too when they made billable requests)
+}
+
+export type FileState = Partial<Record<StageName, StageState>>;
+
+export interface ProcessingStateManifest {
+  version: 1;
+  updatedAt: string;
+  files: Record<string, FileState>;
+}
+
+export const STATE_FILE_NAME = 'processing_state.json';
+
+/**
+ * Per-folder record of what happened to each recording, stored as
+ * `processing_state.json` next to the recordings. Replaces the old
+ * "output file exists means done" check so failures can be retried.
+ */
+export class ProcessingStateStore {
+  readonly folder: string;
+  private manifest: ProcessingStateManifest;
+
+  private constructor(folder: string, manifest: ProcessingStateManifest) {
+    this.folder = folder;
+    this.manifest = manifest;
+  }
+
+  static async load(folder: string): Promise<ProcessingStateStore> {
+    const statePath = path.join(folder, STATE_FILE_NAME);
+    try {
+      const content = await fs.readFile(statePath, 'utf8');
+      const parsed = JSON.parse(content) as ProcessingStateManifest;
+      if (parsed && typeof parsed.files === 'object') {
+        return new ProcessingStateStore(folder, parsed);
+      }
+      console.warn(`⚠️  Ignoring malformed state file: ${statePath}`);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn(`⚠️  Could not read state file ${statePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return new ProcessingStateStore(folder, { version: 1, updatedAt: new Date().toISOString(), files: {} });
+  }
+
+  get(filename: string, stage: StageName): StageState | undefined {
+    return this.manifest.files[filename]?.[stage];
+  }
+
+  entries(): Array<[string, FileState]> {
+    return Object.entries(this.manifest.files);
+  }
+
+  /**
+   * Record the start of an attempt. The status stays `pending` if the run dies mid-way.
+   */
+  async markPending(filename: string, stage: StageName, info: { provider?: string; model?: string } = {}): Promise<void> {
+    const now = new Date().toISOString();
+    const previous = this.get(filename, stage);
+    this.set(filename, stage, {
+      status: 'pending',
+      attempts: (previous?.attempts ?? 0) + 1,
+      provider: info.provider ?? previous?.provider,
+      model: info.model ?? previous?.model,
+      startedAt: now,
+      updatedAt: now
+    });
+    await this.save();
+  }
+
+  async markOk(filename: string, stage: StageName, info: { provider?: string; model?: string; reason?: string; usage?: UsageSummary } = {}): Promise<void> {
+    await this.finish(filename, stage, 'ok', info);
+  }
+
+  async markFailed(filename: string, stage: StageName, reason: string, info: { provider?: string; model?: string; usage?: UsageSummary } = {}): Promise<void> {
+    await this.finish(filename, stage, 'failed', { ...info, reason });
+  }
+
+  async markSkipped(filename: string, stage: StageName, reason: string): Promise<void> {
+    await this.finish(filename, stage, 'skipped', { reason });
+  }
+
+  private async finish(
+    filename: string,
+    stage: StageName,
+    status: StageStatus,
+    info: { provider?: string; model?: string; reason?: string; usage?: UsageSummary }
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const previous = this.get(filename, stage);
+    this.set(filename, stage, {
+      status,
+      reason: info.reason,
+      // Outcomes found on disk (legacy outputs, skips) are not attempts
+      attempts: previous?.attempts ?? 0,
+      provider: info.provider ?? previous?.provider,
+      model: info.model ?? previous?.model,
+      startedAt: previous?.startedAt,
+      updatedAt: now,
+      completedAt: status === 'ok' || status === 'failed' ? now : previous?.completedAt,
+      usage: status === 'ok' || status === 'failed' ? info.usage ?? previous?.usage : previous?.usage
+    });
+    await this.save();
+  }
+
+  private set(filename: string, stage: StageName, state: StageState): void {
+    const fileState = this.manifest.files[filename] ?? {};
+    fileState[stage] = state;
+    this.manifest.files[filename] = fileState;
+  }
+
+  async save(): Promise<void> {
+    this.manifest.updatedAt = new Date().toISOString();
+    const statePath = path.join(this.folder, STATE_FILE_NAME);
+    const tmpPath = `${statePath}.tmp`;
+    // Write then rename so an interrupted run never leaves a truncated manifest
+    await fs.writeFile(tmpPath, JSON.stringify(this.manifest, null, 2), 'utf8');
+    await fs.rename(tmpPath, statePath);
+  }
+}
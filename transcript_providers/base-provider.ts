@@ -1,8 +1,47 @@
+import { ProviderUsage } from '../cost_tracking/price-table';
+
+export interface TranscriptWord {
+  text: string;
+  start: number | null; // seconds from start of recording
+  end: number | null;
+  confidence?: number; // 0-1 when the service reports it
+  speaker?: string | null;
+}
+
+export interface TranscriptSegment {
+  start: number | null; // seconds from start of recording, null when the service gives no timings
+  end: number | null;
+  speaker: string | null;
+  text: string;
+  words?: TranscriptWord[];
+}
+
+/**
+ * Provider-neutral transcript document saved as `<name>.transcript.json`
+ * next to the plain `.txt` transcription.
+ */
+export interface StructuredTranscript {
+  version: 1;
+  provider: string;
+  model?: string;
+  sourceFile: string;
+  createdAt: string;
+  duration: string;
+  language?: string;
+  summary?: string;
+  text: string;
+  segments: TranscriptSegment[];
+}
+
 export interface TranscriptionResult {
   duration: string;
+  transcript?: StructuredTranscript;
+  provider?: string; // Service that produced the transcript (set by fallback chains)
+  usage?: ProviderUsage[]; // Billable requests; when absent the audio duration is metered for `provider`
 }
 
 export interface TranscriptionProvider {
   name: string;
+  maxChunkSeconds?: number; // Longest audio one request accepts; --chunk keeps chunks within it
   transcribeFile(filePath: string, txtPath: string): Promise<TranscriptionResult>;
 }
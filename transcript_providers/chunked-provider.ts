@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TranscriptionProvider, TranscriptionResult, TranscriptSegment, StructuredTranscript } from './base-provider';
+import { AudioChunk, AudioChunker } from '../audio_utils/audio-chunker';
+import { AudioConverter } from '../audio_utils/audio-converter';
+import { createStructuredTranscript, saveStructuredTranscript } from './structured-transcript';
+import { ProviderCallError, ProviderUsage, meterAudio, usageOf } from '../cost_tracking/price-table';
+
+export interface ChunkedConfig {
+  concurrency?: number; // Chunks transcribed at the same time. Default: 1
+}
+
+interface ChunkOutput {
+  chunk: AudioChunk;
+  text: string;
+  transcript?: StructuredTranscript;
+  provider?: string;
+  usage: ProviderUsage[];
+}
+
+/**
+ * Wraps any provider so that long recordings are split at silences into
+ * overlapping chunks, transcribed separately and stitched back together.
+ * Recordings no longer than one chunk are passed straight through.
+ */
+export class ChunkedTranscriptionProvider implements TranscriptionProvider {
+  name: string;
+  private inner: TranscriptionProvider;
+  private converter: AudioConverter;
+  private chunker: AudioChunker;
+  private config: Required<ChunkedConfig>;
+
+  constructor(inner: TranscriptionProvider, converter: AudioConverter, chunker: AudioChunker, config: ChunkedConfig = {}) {
+    this.inner = inner;
+    this.converter = converter;
+    this.chunker = chunker;
+    this.name = `${inner.name} (chunked)`;
+    this.config = {
+      concurrency: Math.max(1, config.concurrency ?? 1)
+    };
+  }
+
+  async transcribeFile(filePath: string, txtPath: string): Promise<TranscriptionResult> {
+    const durationSeconds = await this.converter.getDurationSeconds(filePath);
+    const maxChunkSeconds = this.inner.maxChunkSeconds ?? Infinity;
+    if (durationSeconds === null || durationSeconds <= Math.min(this.chunker.chunkSeconds, maxChunkSeconds)) {
+      const result = await this.inner.transcribeFile(filePath, txtPath);
+      return { ...result, usage: result.usage ?? [meterAudio(result.provider ?? this.inner.name, result.duration, result.transcript?.model)] };
+    }
+
+    console.log(`🧩 CHUNKED TRANSCRIPTION: ${path.basename(filePath)} (${durationSeconds.toFixed(0)}s)`);
+    const { dir, chunks } = await this.chunker.split(filePath, durationSeconds, maxChunkSeconds);
+
+    try {
+      const outputs = await this.transcribeChunks(chunks, dir);
+      const segments = this.stitch(outputs, chunks);
+      const text = segments
+        .map(seg => (seg.speaker ? `${seg.speaker}: ${seg.text}` : seg.text))
+        .join('\n')
+        .trim();
+
+      if (!text) {
+        console.warn('⚠️  No speech detected in any chunk');
+        await fs.writeFile(txtPath, '[No speech detected]', 'utf8');
+      } else {
+        console.log(`💾 Saving stitched transcription to: ${txtPath}`);
+        await fs.writeFile(txtPath, text, 'utf8');
+        console.log(`✅ Successfully saved transcription to ${txtPath}`);
+      }
+
+      const providers = Array.from(new Set(outputs.map(o => o.provider || o.transcript?.provider || this.inner.name)));
+      const duration = this.formatDuration(durationSeconds);
+      const transcript = createStructuredTranscript({
+        provider: providers.join(','),
+        model: outputs.find(o => o.transcript?.model)?.transcript?.model,
+        sourceFile: filePath,
+        duration,
+        language: outputs.find(o => o.transcript?.language)?.transcript?.language,
+        text,
+        segments
+      });
+      await saveStructuredTranscript(txtPath, transcript);
+
+      return { duration, transcript, provider: providers.join(','), usage: outputs.flatMap(o => o.usage) };
+    } finally {
+      await this.chunker.cleanup(dir);
+    }
+  }
+
+  private async transcribeChunks(chunks: AudioChunk[], dir: string): Promise<ChunkOutput[]> {
+    const outputs: ChunkOutput[] = new Array(chunks.length);
+    let next = 0;
+    // Chunks already transcribed are billed even when a later one fails
+    const spent: ProviderUsage[] = [];
+
+    const worker = async () => {
+      while (next < chunks.length) {
+        const chunk = chunks[next++];
+        const chunkTxtPath = path.join(dir, `${path.basename(chunk.path, '.wav')}.txt`);
+        console.log(`🎙️  Transcribing chunk ${chunk.index + 1}/${chunks.length}...`);
+        let result: TranscriptionResult;
+        try {
+          result = await this.inner.transcribeFile(chunk.path, chunkTxtPath);
+        } catch (error: unknown) {
+          const usage = usageOf(error).map(u => ({ ...u, audioSeconds: u.audioSeconds ?? chunk.end - chunk.start }));
+          const message = `Chunk ${chunk.index + 1}/${chunks.length} failed: ${error instanceof Error ? error.message : String(error)}`;
+          throw new ProviderCallError(message, [...spent, ...usage]);
+        }
+        const raw = await fs.readFile(chunkTxtPath, 'utf8').catch(() => '');
+        const text = raw.trim() === '[No speech detected]' ? '' : raw;
+        // Each chunk, overlap included, is billed separately
+        const usage = (result.usage ?? [{ provider: result.provider ?? this.inner.name, model: result.transcript?.model }])
+          .map(u => ({ ...u, audioSeconds: u.audioSeconds ?? chunk.end - chunk.start }));
+        outputs[chunk.index] = { chunk, text: result.transcript?.text ?? text, transcript: result.transcript, provider: result.provider, usage };
+        spent.push(...usage);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.config.concurrency, chunks.length) }, () => worker()));
+    return outputs;
+  }
+
+  /**
+   * Shift chunk timings onto the original timeline and drop the overlap.
+   * Timed segments are kept by the chunk that owns their midpoint; untimed
+   * text is de-duplicated by matching the words repeated across the seam.
+   */
+  private stitch(outputs: ChunkOutput[], chunks: AudioChunk[]): TranscriptSegment[] {
+    const stitched: TranscriptSegment[] = [];
+
+    for (let i = 0; i < outputs.length; i++) {
+      const { chunk, text, transcript } = outputs[i];
+      const ownedStart = i === 0 ? 0 : (chunk.start + chunks[i - 1].end) / 2;
+      const ownedEnd = i === chunks.length - 1 ? Infinity : (chunks[i + 1].start + chunk.end) / 2;
+
+      let segments: TranscriptSegment[] = transcript?.segments?.length
+        ? transcript.segments
+        : text.trim() ? [{ start: null, end: null, speaker: null, text: text.trim() }] : [];
+      const timed = segments.length > 0 && segments.every(seg => seg.start !== null);
+
+      if (timed) {
+        for (const seg of segments) {
+          const start = seg.start! + chunk.start;
+          const end = (seg.end ?? seg.start!) + chunk.start;
+          const mid = (start + end) / 2;
+          if (mid < ownedStart || mid >= ownedEnd) continue;
+          stitched.push({
+            ...seg,
+            start,
+            end,
+            words: seg.words?.map(w => ({
+              ...w,
+              start: w.start !== null ? w.start + chunk.start : null,
+              end: w.end !== null ? w.end + chunk.start : null
+            }))
+          });
+        }
+      } else {
+        if (stitched.length > 0) {
+          segments = this.dropRepeatedWords(stitched, segments);
+        }
+        stitched.push(...segments);
+      }
+    }
+
+    return stitched;
+  }
+
+  private dropRepeatedWords(previous: TranscriptSegment[], segments: TranscriptSegment[]): TranscriptSegment[] {
+    const normalize = (w: string) => w.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+    const tail = previous.map(s => s.text).join(' ').split(/\s+/).slice(-80).map(normalize);
+    const head = segments.map(s => s.text).join(' ').split(/\s+/).slice(0, 80).map(normalize);
+
+    let overlap = 0;
+    for (let k = Math.min(tail.length, head.length); k >= 3; k--) {
+      if (tail.slice(-k).join(' ') === head.slice(0, k).join(' ')) {
+        overlap = k;
+        break;
+      }
+    }
+    if (overlap === 0) return segments;
+
+    const result: TranscriptSegment[] = [];
+    let remaining = overlap;
+    for (const seg of segments) {
+      if (remaining <= 0) {
+        result.push(seg);
+        continue;
+      }
+      const words = seg.text.split(/\s+/);
+      if (words.length <= remaining) {
+        remaining -= words.length;
+        continue;
+      }
+      result.push({ ...seg, text: words.slice(remaining).join(' ') });
+      remaining = 0;
+    }
+    return result;
+  }
+
+  private formatDuration(totalSeconds: number): string {
+    const sec = Math.max(0, Math.floor(totalSeconds));
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${pad(Math.floor(sec / 3600))}:${pad(Math.floor((sec % 3600) / 60))}:${pad(sec % 60)}`;
+  }
+}
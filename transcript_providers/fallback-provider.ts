@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TranscriptionProvider, TranscriptionResult } from './base-provider';
+import { ProviderCallError, ProviderUsage, meterAudio, usageOf } from '../cost_tracking/price-table';
+import { getStructuredTranscriptPath } from './structured-transcript';
+
+export interface FallbackConfig {
+  timeoutSeconds?: number; // Per-provider timeout. Default: 600
+}
+
+/**
+ * Tries each provider in order until one produces a non-empty transcript.
+ * A provider is skipped when it throws, times out, or yields an empty or
+ * "[No speech detected]" transcript. Each attempt writes to its own hidden
+ * file so a slow provider that is abandoned can never overwrite the winner.
+ */
+export class FallbackTranscriptionProvider implements TranscriptionProvider {
+  name: string;
+  maxChunkSeconds?: number;
+  private providers: TranscriptionProvider[];
+  private config: Required<FallbackConfig>;
+
+  constructor(providers: TranscriptionProvider[], config: FallbackConfig = {}) {
+    if (providers.length === 0) {
+      throw new Error('Fallback chain needs at least one transcription provider');
+    }
+    this.providers = providers;
+    this.name = providers.map(p => p.name).join(' → ');
+    // Chunks must suit every provider a chunk can fall back to
+    const limits = providers.map(p => p.maxChunkSeconds).filter((s): s is number => s !== undefined);
+    this.maxChunkSeconds = limits.length > 0 ? Math.min(...limits) : undefined;
+    this.config = {
+      timeoutSeconds: config.timeoutSeconds ?? 600
+    };
+  }
+
+  async transcribeFile(filePath: string, txtPath: string): Promise<TranscriptionResult> {
+    const failures: string[] = [];
+    let emptyAttempt: { provider: string; txtPath: string; result: TranscriptionResult } | null = null;
+    // Empty attempts are billed too
+    const usage: ProviderUsage[] = [];
+
+    for (const provider of this.providers) {
+      const attemptTxtPath = this.getAttemptPath(txtPath, provider.name);
+      console.log(`🔗 Fallback chain: trying ${provider.name}`);
+
+      try {
+        const result = await this.withTimeout(
+          provider.transcribeFile(filePath, attemptTxtPath),
+          provider.name,
+          // The abandoned provider keeps running; remove what it writes once it settles
+          () => this.cleanupAttempt(attemptTxtPath)
+        );
+        const text = await fs.readFile(attemptTxtPath, 'utf8').catch(() => '');
+        usage.push(...(result.usage ?? [meterAudio(provider.name, result.duration, result.transcript?.model)]));
+
+        if (this.isEmptyTranscript(text)) {
+          console.warn(`⚠️  ${provider.name} returned an empty transcript, trying next provider`);
+          failures.push(`${provider.name}: empty result`);
+          if (emptyAttempt) await this.cleanupAttempt(emptyAttempt.txtPath);
+          emptyAttempt = { provider: provider.name, txtPath: attemptTxtPath, result };
+          continue;
+        }
+
+        await this.promoteAttempt(attemptTxtPath, txtPath);
+        if (emptyAttempt) await this.cleanupAttempt(emptyAttempt.txtPath);
+        console.log(`✅ Transcript produced by ${provider.name}`);
+        return { ...result, provider: provider.name, usage };
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  ${provider.name} failed: ${message}`);
+        failures.push(`${provider.name}: ${message}`);
+        usage.push(...usageOf(error));
+        await this.cleanupAttempt(attemptTxtPath);
+      }
+    }
+
+    // Every provider was empty or failed; keep the empty result if there was one
+    if (emptyAttempt) {
+      await this.promoteAttempt(emptyAttempt.txtPath, txtPath);
+      console.warn(`⚠️  All providers returned empty transcripts; keeping result from ${emptyAttempt.provider}`);
+      return { ...emptyAttempt.result, provider: emptyAttempt.provider, usage };
+    }
+
+    throw new ProviderCallError(`All transcription providers failed (${failures.join('; ')})`, usage);
+  }
+
+  private isEmptyTranscript(text: string): boolean {
+    const trimmed = text.trim();
+    return trimmed.length === 0 || trimmed === '[No speech detected]';
+  }
+
+  private getAttemptPath(txtPath: string, providerName: string): string {
+    const base = path.basename(txtPath, path.extname(txtPath));
+    return path.join(path.dirname(txtPath), `.${base}.${providerName}.attempt.txt`);
+  }
+
+  private async promoteAttempt(attemptTxtPath: string, txtPath: string): Promise<void> {
+    await fs.rename(attemptTxtPath, txtPath);
+    const attemptJson = getStructuredTranscriptPath(attemptTxtPath);
+    try {
+      await fs.rename(attemptJson, getStructuredTranscriptPath(txtPath));
+    } catch {
+      // Provider did not write a structured transcript
+    }
+  }
+
+  private async cleanupAttempt(attemptTxtPath: string): Promise<void> {
+    await fs.unlink(attemptTxtPath).catch(() => {});
+    await fs.unlink(getStructuredTranscriptPath(attemptTxtPath)).catch(() => {});
+  }
+
+  private withTimeout<T>(promise: Promise<T>, providerName: string, onAbandoned: () => Promise<void>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        promise.then(onAbandoned, onAbandoned);
+        // The abandoned request is still billed; its audio length is filled in when it is recorded
+        reject(new ProviderCallError(`${providerName} timed out after ${this.config.timeoutSeconds} seconds`, [{ provider: providerName }]));
+      }, this.config.timeoutSeconds * 1000);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
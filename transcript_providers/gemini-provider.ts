@@ -1,7 +1,10 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { TranscriptionProvider, TranscriptionResult } from './base-provider';
+import { StructuredTranscript, TranscriptionProvider, TranscriptionResult } from './base-provider';
+import { createStructuredTranscript, saveStructuredTranscript, segmentsFromSpeakerLines } from './structured-transcript';
+import { GeminiFileUploader, UploadedFile } from '../audio_utils/gemini-file-uploader';
+import { geminiUsage } from '../cost_tracking/price-table';
 
 export interface GeminiConfig {
   model?: string; // Default: 'gemini-2.0-flash-lite'
@@ -22,6 +25,9 @@ export class GeminiProvider implements TranscriptionProvider {
     console.log(`📁 File: ${path.basename(filePath)}`);
     console.log(`📂 Output: ${path.basename(txtPath)}`);
 
+    let uploader: GeminiFileUploader | null = null;
+    let uploaded: UploadedFile | null = null;
+
     try {
       console.log('🔄 Preparing Gemini transcription request...');
 
@@ -35,13 +41,25 @@ export class GeminiProvider implements TranscriptionProvider {
       console.log(`📁 Processing file: ${path.basename(filePath)}`);
       console.log(`🎵 File format: ${fileExt}`);
 
-      // Read the audio file
-      console.log(`📖 Reading audio file...`);
-      const audioBuffer = await fs.readFile(filePath);
-      console.log(`✅ File read successfully, size: ${audioBuffer.length} bytes`);
+      const mimeType = this.getMimeType(fileExt);
+      const { size } = await fs.stat(filePath);
+      console.log(`📏 File size: ${(size / 1024 / 1024).toFixed(2)} MB`);
+
+      let audioPart;
+      uploader = new GeminiFileUploader(geminiApiKey);
+      if (uploader.shouldUpload(size)) {
+        // Large recordings go through the Files API and are referenced by URI
+        uploaded = await uploader.upload(filePath, mimeType);
+        audioPart = { fileData: { mimeType: uploaded.mimeType, fileUri: uploaded.uri } };
+      } else {
+        // Read the audio file
+        console.log(`📖 Reading audio file...`);
+        const audioBuffer = await fs.readFile(filePath);
+        console.log(`✅ File read successfully, size: ${audioBuffer.length} bytes`);
 
-      const fileSize = (audioBuffer.length / 1024 / 1024).toFixed(2);
-      console.log(`📏 File size: ${fileSize} MB`);
+        // Convert audio buffer to base64
+        audioPart = { inlineData: { mimeType: mimeType, data: audioBuffer.toString('base64') } };
+      }
 
       // Initialize Gemini
       console.log('💎 Initializing Gemini client...');
@@ -49,10 +67,6 @@ export class GeminiProvider implements TranscriptionProvider {
       const model = genAI.getGenerativeModel({ model: this.config.model });
       console.log(`✅ Gemini ${this.config.model} initialized`);
 
-      // Convert audio buffer to base64
-      const audioBase64 = audioBuffer.toString('base64');
-      const mimeType = this.getMimeType(fileExt);
-
       console.log('🎙️ Sending request to Gemini API...');
       console.log('⏳ Processing audio file...');
 
@@ -67,12 +81,7 @@ TRANSCRIPTION:
 
       // Generate content with audio
       const result = await model.generateContent([
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: audioBase64
-          }
-        },
+        audioPart,
         prompt
       ]);
 
@@ -80,6 +89,9 @@ TRANSCRIPTION:
 
       const response = await result.response;
       const fullResponse = response.text();
+      const usageMetadata = response.usageMetadata;
+      let summaryText: string | undefined;
+      let transcriptionText = '';
 
       if (!fullResponse.trim()) {
         console.warn('⚠️  No response received from Gemini');
@@ -110,12 +122,31 @@ TRANSCRIPTION:
         console.log(`📄 Response preview: ${fullResponse.substring(0, 200)}${fullResponse.length > 200 ? '...' : ''}`);
         await fs.writeFile(txtPath, finalContent, 'utf8');
         console.log(`✅ Successfully saved transcription with summary to ${txtPath}`);
+        summaryText = summary;
+        transcriptionText = transcription;
       }
 
       // Get duration for return value
       const duration = await this.getAudioDuration(filePath);
       console.log(`⏱️  Audio duration: ${duration || 'N/A'}`);
-      return { duration: duration || 'N/A' };
+
+      // Gemini returns no timings, so segments carry speaker turns only
+      const transcript: StructuredTranscript = createStructuredTranscript({
+        provider: this.name,
+        model: this.config.model,
+        sourceFile: filePath,
+        duration: duration || 'N/A',
+        summary: summaryText,
+        text: transcriptionText,
+        segments: segmentsFromSpeakerLines(transcriptionText)
+      });
+      await saveStructuredTranscript(txtPath, transcript);
+
+      return {
+        duration: duration || 'N/A',
+        transcript,
+        usage: [geminiUsage(this.name, this.config.model, usageMetadata)]
+      };
 
     } catch (error: unknown) {
       console.error(`❌ Failed to transcribe ${filePath} with Gemini`);
@@ -130,7 +161,7 @@ TRANSCRIPTION:
           console.error('   💡 Make sure GEMINI_API_KEY is set correctly');
         } else if (error.message.includes('FILE_TOO_LARGE')) {
           console.error('   💡 Solution: Audio file is too large for Gemini');
-          console.error('   💡 Try a smaller file or use another service');
+          console.error('   💡 Set GEMINI_UPLOAD=always to use the Files API, or try another service');
         } else if (error.message.includes('UNSUPPORTED_FORMAT')) {
           console.error('   💡 Solution: Check audio format');
           console.error('   💡 Gemini supports: MP3, WAV, MP4, M4A, FLAC, OGG, AMR');
@@ -141,17 +172,11 @@ TRANSCRIPTION:
         console.error(`   Unknown error: ${String(error)}`);
       }
 
-      // Try to create a basic error transcription file
-      try {
-        const errorMessage = `[Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}]`;
-        await fs.writeFile(txtPath, errorMessage, 'utf8');
-        console.log(`💾 Saved error message to: ${txtPath}`);
-      } catch (writeError) {
-        console.error('❌ Could not write error message to file');
-        console.error(`   Write error: ${writeError instanceof Error ? writeError.message : String(writeError)}`);
+      throw error;
+    } finally {
+      if (uploader && uploaded) {
+        await uploader.delete(uploaded.name);
       }
-
-      return { duration: 'N/A' };
     }
   }
 
@@ -2,11 +2,14 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import speech from '@google-cloud/speech';
 import { Storage } from '@google-cloud/storage';
-import { TranscriptionProvider, TranscriptionResult } from './base-provider';
+import { TranscriptionProvider, TranscriptionResult, TranscriptSegment } from './base-provider';
 import { AudioConverter } from '../audio_utils/audio-converter';
+import { createStructuredTranscript, saveStructuredTranscript } from './structured-transcript';
 
 export class GoogleProvider implements TranscriptionProvider {
   name = 'google';
+  // Synchronous recognition takes up to a minute; a 16 kHz WAV chunk that long is ~2 MB, well under the 10 MB limit
+  maxChunkSeconds = 55;
   private converter: AudioConverter;
 
   constructor(converter: AudioConverter) {
@@ -70,7 +73,8 @@ export class GoogleProvider implements TranscriptionProvider {
         sampleRateHertz: 16000,
         languageCode: 'en-US',
         enableAutomaticPunctuation: true,
-        enableWordTimeOffsets: false,
+        enableWordTimeOffsets: true,
+        enableWordConfidence: true,
       };
 
       if (audioDuration && this.isLongerThanOneMinute(audioDuration)) {
@@ -149,7 +153,36 @@ export class GoogleProvider implements TranscriptionProvider {
       // Get duration for return value
       const duration = await this.getAudioDuration(filePath);
       console.log(`⏱️  Audio duration: ${duration || 'N/A'}`);
-      return { duration: duration || 'N/A' };
+
+      const segments: TranscriptSegment[] = (response.results || [])
+        .map((result: any) => {
+          const alternative = result.alternatives?.[0];
+          const words = (alternative?.words || []).map((w: any) => ({
+            text: w.word || '',
+            start: this.toSeconds(w.startTime),
+            end: this.toSeconds(w.endTime),
+            confidence: typeof w.confidence === 'number' ? w.confidence : undefined
+          }));
+          return {
+            start: words.length > 0 ? words[0].start : null,
+            end: words.length > 0 ? words[words.length - 1].end : this.toSeconds(result.resultEndTime),
+            speaker: null,
+            text: (alternative?.transcript || '').trim(),
+            words
+          };
+        })
+        .filter((seg: TranscriptSegment) => seg.text.length > 0);
+      const transcript = createStructuredTranscript({
+        provider: this.name,
+        sourceFile: filePath,
+        duration: duration || 'N/A',
+        language: config.languageCode,
+        text: transcription,
+        segments
+      });
+      await saveStructuredTranscript(txtPath, transcript);
+
+      return { duration: duration || 'N/A', transcript };
 
     } catch (error: unknown) {
       // Clean up GCS file if it was uploaded
@@ -191,17 +224,7 @@ export class GoogleProvider implements TranscriptionProvider {
         console.error(`   Unknown error: ${String(error)}`);
       }
 
-      // Try to create a basic error transcription file
-      try {
-        const errorMessage = `[Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}]`;
-        await fs.writeFile(txtPath, errorMessage, 'utf8');
-        console.log(`💾 Saved error message to: ${txtPath}`);
-      } catch (writeError) {
-        console.error('❌ Could not write error message to file');
-        console.error(`   Write error: ${writeError instanceof Error ? writeError.message : String(writeError)}`);
-      }
-
-      return { duration: 'N/A' };
+      throw error;
     } finally {
       // Clean up temporary WAV file
       if (tempWavPath) {
@@ -279,6 +302,14 @@ export class GoogleProvider implements TranscriptionProvider {
     }
   }
 
+  private toSeconds(offset: { seconds?: number | string | null; nanos?: number | null } | null | undefined): number | null {
+    if (!offset) return null;
+    const seconds = Number(offset.seconds ?? 0);
+    const nanos = Number(offset.nanos ?? 0);
+    if (isNaN(seconds) || isNaN(nanos)) return null;
+    return seconds + nanos / 1e9;
+  }
+
   private isLongerThanOneMinute(duration: string): boolean {
     // Parse duration in HH:MM:SS format
     const parts = duration.split(':');
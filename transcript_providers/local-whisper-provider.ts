@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { TranscriptionProvider, TranscriptionResult, TranscriptSegment } from './base-provider';
+import { AudioConverter } from '../audio_utils/audio-converter';
+import { createStructuredTranscript, saveStructuredTranscript } from './structured-transcript';
+
+export interface LocalWhisperConfig {
+  binaryPath?: string; // Default: 'whisper-cli' (whisper.cpp)
+  modelPath?: string; // Required: path to the ggml / CTranslate2 model
+  args?: string; // Argument template, see DEFAULT_ARGS
+  language?: string; // Default: 'auto'
+  threads?: number; // Default: number of CPU cores
+  timeoutSeconds?: number; // Default: 1800
+}
+
+/**
+ * Argument template for whisper.cpp. Placeholders are replaced per token, so paths
+ * with spaces are safe. faster-whisper front-ends (e.g. whisper-ctranslate2) can be
+ * used by setting LOCAL_WHISPER_ARGS, for example:
+ *   {input} --model_directory {model} --output_dir {outputDir} --output_format json --language {language}
+ */
+const DEFAULT_ARGS = '-m {model} -f {input} -l {language} -t {threads} -oj -of {output}';
+
+export class LocalWhisperProvider implements TranscriptionProvider {
+  name = 'local-whisper';
+  private converter: AudioConverter;
+  private config: Required<LocalWhisperConfig>;
+
+  constructor(converter: AudioConverter, config: LocalWhisperConfig = {}) {
+    this.converter = converter;
+    this.config = {
+      binaryPath: config.binaryPath ?? process.env.LOCAL_WHISPER_BIN ?? 'whisper-cli',
+      modelPath: config.modelPath ?? process.env.LOCAL_WHISPER_MODEL ?? '',
+      args: config.args ?? process.env.LOCAL_WHISPER_ARGS ?? DEFAULT_ARGS,
+      language: config.language ?? process.env.LOCAL_WHISPER_LANGUAGE ?? 'auto',
+      threads: config.threads ?? parseInt(process.env.LOCAL_WHISPER_THREADS || String(os.cpus().length)),
+      timeoutSeconds: config.timeoutSeconds ?? parseInt(process.env.LOCAL_WHISPER_TIMEOUT_SECONDS || '1800')
+    };
+  }
+
+  async transcribeFile(filePath: string, txtPath: string): Promise<TranscriptionResult> {
+    console.log('🚀 LOCAL WHISPER TRANSCRIPTION STARTED');
+    console.log(`📁 File: ${path.basename(filePath)}`);
+    console.log(`📂 Output: ${path.basename(txtPath)}`);
+
+    let tempWavPath: string | null = null;
+    let outputDir: string | null = null;
+
+    try {
+      if (!this.config.modelPath) {
+        throw new Error('Local Whisper model not configured. Set LOCAL_WHISPER_MODEL environment variable');
+      }
+
+      // whisper.cpp only accepts 16kHz mono WAV, so always resample
+      console.log(`🔄 Resampling to 16kHz WAV: ${filePath}`);
+      const conversionResult = await this.converter.convertToWav(filePath, 16000);
+      tempWavPath = conversionResult.wavPath;
+      console.log(`✅ Resampling completed: ${tempWavPath}`);
+
+      outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-whisper-'));
+      const outputBase = path.join(outputDir, path.basename(tempWavPath, '.wav'));
+
+      const args = this.config.args
+        .split(/\s+/)
+        .filter(token => token.length > 0)
+        .map(token => token
+          .replace('{model}', this.config.modelPath)
+          .replace('{input}', tempWavPath!)
+          .replace('{output}', outputBase)
+          .replace('{outputDir}', outputDir!)
+          .replace('{language}', this.config.language)
+          .replace('{threads}', String(this.config.threads)));
+
+      console.log(`🖥️  Running local model: ${this.config.binaryPath} ${args.join(' ')}`);
+      const execFileAsync = promisify(execFile);
+      await execFileAsync(this.config.binaryPath, args, {
+        timeout: this.config.timeoutSeconds * 1000,
+        maxBuffer: 64 * 1024 * 1024
+      });
+      console.log('✅ Local model finished');
+
+      const parsed = await this.readOutput(outputDir);
+      const transcriptionText = parsed.segments.map(seg => seg.text).join('\n').trim();
+      console.log(`📝 Transcription length: ${transcriptionText.length} characters`);
+
+      if (!transcriptionText) {
+        console.warn('⚠️  No transcription text produced by local model');
+        await fs.writeFile(txtPath, '[No speech detected]', 'utf8');
+      } else {
+        console.log(`💾 Saving transcription to: ${txtPath}`);
+        await fs.writeFile(txtPath, transcriptionText, 'utf8');
+        console.log(`✅ Successfully saved transcription to ${txtPath}`);
+      }
+
+      const duration = await this.getAudioDuration(filePath);
+      const transcript = createStructuredTranscript({
+        provider: this.name,
+        model: path.basename(this.config.modelPath),
+        sourceFile: filePath,
+        duration: duration || 'N/A',
+        language: parsed.language,
+        text: transcriptionText,
+        segments: parsed.segments
+      });
+      await saveStructuredTranscript(txtPath, transcript);
+
+      return { duration: duration || 'N/A', transcript };
+    } catch (error: unknown) {
+      console.error(`❌ Failed to transcribe ${filePath} with local Whisper`);
+      console.error('🔍 Error details:');
+
+      if (error instanceof Error) {
+        console.error(`   Message: ${error.message}`);
+
+        if (error.message.includes('ENOENT')) {
+          console.error(`   💡 Solution: Check that ${this.config.binaryPath} is installed and on PATH`);
+          console.error('   💡 Or set LOCAL_WHISPER_BIN to the full path of the executable');
+        } else if (error.message.includes('LOCAL_WHISPER_MODEL')) {
+          console.error('   💡 Solution: Download a model (e.g. ggml-base.en.bin) and point LOCAL_WHISPER_MODEL at it');
+        }
+      } else {
+        console.error(`   Unknown error: ${String(error)}`);
+      }
+
+      throw error;
+    } finally {
+      if (tempWavPath) {
+        await this.converter.cleanupTempFile(tempWavPath);
+      }
+      if (outputDir) {
+        await fs.rm(outputDir, { recursive: true, force: true }).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Read the JSON written by the local tool. Supports the whisper.cpp format
+   * (`transcription[].offsets` in ms) and the openai-whisper / faster-whisper
+   * format (`segments[].start` in seconds).
+   */
+  private async readOutput(outputDir: string): Promise<{ language?: string; segments: TranscriptSegment[] }> {
+    const files = (await fs.readdir(outputDir)).filter(f => f.toLowerCase().endsWith('.json'));
+    if (files.length === 0) {
+      throw new Error(`Local model produced no JSON output in ${outputDir}; check LOCAL_WHISPER_ARGS`);
+    }
+    const data = JSON.parse(await fs.readFile(path.join(outputDir, files[0]), 'utf8'));
+
+    if (Array.isArray(data.transcription)) {
+      return {
+        language: data.result?.language,
+        segments: data.transcription
+          .map((item: any) => ({
+            start: typeof item.offsets?.from === 'number' ? item.offsets.from / 1000 : null,
+            end: typeof item.offsets?.to === 'number' ? item.offsets.to / 1000 : null,
+            speaker: null,
+            text: String(item.text ?? '').trim()
+          }))
+          .filter((seg: TranscriptSegment) => seg.text.length > 0)
+      };
+    }
+
+    if (Array.isArray(data.segments)) {
+      return {
+        language: data.language,
+        segments: data.segments
+          .map((item: any) => ({
+            start: typeof item.start === 'number' ? item.start : null,
+            end: typeof item.end === 'number' ? item.end : null,
+            speaker: null,
+            text: String(item.text ?? '').trim(),
+            words: Array.isArray(item.words)
+              ? item.words.map((w: any) => ({ text: String(w.word ?? '').trim(), start: w.start ?? null, end: w.end ?? null, confidence: w.probability }))
+              : undefined
+          }))
+          .filter((seg: TranscriptSegment) => seg.text.length > 0)
+      };
+    }
+
+    throw new Error(`Unrecognised local model output format in ${files[0]}`);
+  }
+
+  private async getAudioDuration(filePath: string): Promise<string | null> {
+    const { exec } = require('child_process');
+    const execAsync = promisify(exec);
+
+    try {
+      // Use FFmpeg to get duration
+      const ffmpegCommand = `"${require('ffmpeg-static')}" -i "${filePath}" 2>&1 | grep "Duration" | cut -d ' ' -f 4 | sed s/,//`;
+
+      const { stdout } = await execAsync(ffmpegCommand);
+      const duration = String(stdout).trim();
+
+      if (duration) {
+        // Convert HH:MM:SS.ms format to just HH:MM:SS
+        return duration.split('.')[0];
+      }
+
+      return null;
+    } catch (error) {
+      console.warn(`⚠️  Could not get duration for ${filePath}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import OpenAI from 'openai';
+import { TranscriptionProvider, TranscriptionResult, TranscriptSegment } from './base-provider';
+import { AudioConverter } from '../audio_utils/audio-converter';
+import { createStructuredTranscript, saveStructuredTranscript } from './structured-transcript';
+
+export type CompatibleResponseFormat = 'json' | 'text' | 'verbose_json';
+
+export interface OpenAICompatibleConfig {
+  baseURL?: string; // Default: OpenAI's public endpoint
+  model?: string; // Default: 'whisper-1'
+  apiKey?: string; // Falls back to OPENAI_API_KEY; self-hosted servers usually ignore it
+  headers?: Record<string, string>; // Extra headers sent with every request
+  language?: string; // ISO-639-1 code, e.g. 'en'
+  prompt?: string; // Vocabulary hints / previous context
+  temperature?: number;
+  responseFormat?: CompatibleResponseFormat; // Default: 'verbose_json' so segment timestamps come back
+}
+
+export class OpenAICompatibleProvider implements TranscriptionProvider {
+  name = 'openai-compatible';
+  private converter: AudioConverter;
+  private config: OpenAICompatibleConfig & { model: string; responseFormat: CompatibleResponseFormat };
+
+  constructor(converter: AudioConverter, config: OpenAICompatibleConfig = {}) {
+    this.converter = converter;
+    const envTemperature = process.env.OPENAI_COMPATIBLE_TEMPERATURE;
+    this.config = {
+      baseURL: config.baseURL ?? process.env.OPENAI_COMPATIBLE_BASE_URL,
+      model: config.model ?? process.env.OPENAI_COMPATIBLE_MODEL ?? 'whisper-1',
+      apiKey: config.apiKey ?? process.env.OPENAI_COMPATIBLE_API_KEY ?? process.env.OPENAI_API_KEY,
+      headers: config.headers ?? OpenAICompatibleProvider.parseHeaders(process.env.OPENAI_COMPATIBLE_HEADERS),
+      language: config.language ?? process.env.OPENAI_COMPATIBLE_LANGUAGE,
+      prompt: config.prompt ?? process.env.OPENAI_COMPATIBLE_PROMPT,
+      temperature: config.temperature ?? (envTemperature !== undefined ? parseFloat(envTemperature) : undefined),
+      responseFormat: config.responseFormat ?? (process.env.OPENAI_COMPATIBLE_RESPONSE_FORMAT as CompatibleResponseFormat | undefined) ?? 'verbose_json'
+    };
+  }
+
+  /**
+   * Parse a JSON object of header names to values, e.g. '{"X-Api-Token":"abc"}'.
+   */
+  static parseHeaders(raw: string | undefined): Record<string, string> | undefined {
+    if (!raw) return undefined;
+    try {
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return Object.fromEntries(Object.entries(parsed).map(([k, v]) => [k, String(v)]));
+      }
+    } catch {}
+    throw new Error('OPENAI_COMPATIBLE_HEADERS must be a JSON object of header names to values');
+  }
+
+  async transcribeFile(filePath: string, txtPath: string): Promise<TranscriptionResult> {
+    console.log('🚀 OPENAI-COMPATIBLE TRANSCRIPTION STARTED');
+    console.log(`📁 File: ${path.basename(filePath)}`);
+    console.log(`📂 Output: ${path.basename(txtPath)}`);
+    console.log(`🌐 Endpoint: ${this.config.baseURL || 'https://api.openai.com/v1'}`);
+    console.log(`🤖 Model: ${this.config.model}`);
+
+    let tempWavPath: string | null = null;
+
+    try {
+      const fileExt = path.extname(filePath).toLowerCase();
+      let audioFilePath = filePath;
+      let audioFileBuffer: Buffer;
+
+      if (fileExt === '.amr') {
+        console.log(`🔄 Converting .amr file to WAV: ${filePath}`);
+        const conversionResult = await this.converter.convertAmrToWav(filePath);
+        tempWavPath = conversionResult.wavPath;
+        audioFilePath = tempWavPath;
+        audioFileBuffer = conversionResult.buffer;
+        console.log(`✅ Conversion completed: ${tempWavPath}`);
+      } else {
+        console.log(`📖 Reading file: ${filePath}`);
+        audioFileBuffer = await fs.readFile(filePath);
+      }
+
+      const fileSize = (audioFileBuffer.length / 1024 / 1024).toFixed(2);
+      console.log(`📏 File size: ${fileSize} MB`);
+
+      const client = new OpenAI({
+        // Self-hosted servers often run without auth, but the SDK insists on a key
+        apiKey: this.config.apiKey || 'not-required',
+        baseURL: this.config.baseURL,
+        defaultHeaders: this.config.headers
+      });
+
+      const file = new File([new Uint8Array(audioFileBuffer)], path.basename(audioFilePath), {
+        type: this.getMimeType(path.extname(audioFilePath))
+      });
+
+      console.log(`🤖 Sending request (response_format=${this.config.responseFormat})...`);
+      const response: any = await client.audio.transcriptions.create({
+        file,
+        model: this.config.model as any,
+        response_format: this.config.responseFormat,
+        ...(this.config.language ? { language: this.config.language } : {}),
+        ...(this.config.prompt ? { prompt: this.config.prompt } : {}),
+        ...(this.config.temperature !== undefined && !isNaN(this.config.temperature) ? { temperature: this.config.temperature } : {}),
+        ...(this.config.responseFormat === 'verbose_json' ? { timestamp_granularities: ['segment'] as Array<'segment'> } : {})
+      });
+      console.log('✅ Received response from transcription endpoint');
+
+      // 'text' returns a bare string, 'json' / 'verbose_json' return an object
+      const transcriptionText = (typeof response === 'string' ? response : String(response?.text ?? '')).trim();
+      console.log(`📝 Transcription length: ${transcriptionText.length} characters`);
+
+      if (!transcriptionText) {
+        console.warn('⚠️  No transcription text received from endpoint');
+        await fs.writeFile(txtPath, '[No speech detected]', 'utf8');
+      } else {
+        console.log(`💾 Saving transcription to: ${txtPath}`);
+        await fs.writeFile(txtPath, transcriptionText, 'utf8');
+        console.log(`✅ Successfully saved transcription to ${txtPath}`);
+      }
+
+      const duration = await this.getAudioDuration(filePath);
+      const segments: TranscriptSegment[] = Array.isArray(response?.segments)
+        ? response.segments.map((seg: any) => ({
+            start: typeof seg.start === 'number' ? seg.start : null,
+            end: typeof seg.end === 'number' ? seg.end : null,
+            speaker: null,
+            text: String(seg.text ?? '').trim()
+          }))
+        : [];
+      const transcript = createStructuredTranscript({
+        provider: this.name,
+        model: this.config.model,
+        sourceFile: filePath,
+        duration: duration || 'N/A',
+        language: typeof response === 'object' ? response?.language ?? this.config.language : this.config.language,
+        text: transcriptionText,
+        segments
+      });
+      await saveStructuredTranscript(txtPath, transcript);
+
+      return { duration: duration || 'N/A', transcript };
+    } catch (error: unknown) {
+      console.error(`❌ Failed to transcribe ${filePath} with OpenAI-compatible endpoint`);
+      console.error('🔍 Error details:');
+
+      if (error instanceof Error) {
+        console.error(`   Message: ${error.message}`);
+
+        if (error.message.includes('ECONNREFUSED') || error.message.includes('Connection error')) {
+          console.error('   💡 Solution: Check that the server at OPENAI_COMPATIBLE_BASE_URL is running');
+        } else if (error.message.includes('404')) {
+          console.error('   💡 Solution: The base URL should end in /v1 and the server must expose /audio/transcriptions');
+        } else if (error.message.includes('401') || error.message.includes('403')) {
+          console.error('   💡 Solution: Check OPENAI_COMPATIBLE_API_KEY or OPENAI_COMPATIBLE_HEADERS');
+        }
+      } else {
+        console.error(`   Unknown error: ${String(error)}`);
+      }
+
+      throw error;
+    } finally {
+      if (tempWavPath) {
+        await this.converter.cleanupTempFile(tempWavPath);
+      }
+    }
+  }
+
+  private getMimeType(ext: string): string {
+    const mimeTypes: Record<string, string> = {
+      '.mp3': 'audio/mpeg',
+      '.wav': 'audio/wav',
+      '.mp4': 'video/mp4',
+      '.avi': 'video/x-msvideo',
+      '.m4a': 'audio/mp4',
+      '.flac': 'audio/flac',
+      '.ogg': 'audio/ogg',
+      '.amr': 'audio/amr'
+    };
+    return mimeTypes[ext] || 'application/octet-stream';
+  }
+
+  private async getAudioDuration(filePath: string): Promise<string | null> {
+    const { exec } = require('child_process');
+    const { promisify } = require('util');
+    const execAsync = promisify(exec);
+
+    try {
+      // Use FFmpeg to get duration
+      const ffmpegCommand = `"${require('ffmpeg-static')}" -i "${filePath}" 2>&1 | grep "Duration" | cut -d ' ' -f 4 | sed s/,//`;
+
+      const { stdout } = await execAsync(ffmpegCommand);
+      const duration = stdout.trim();
+
+      if (duration) {
+        // Convert HH:MM:SS.ms format to just HH:MM:SS
+        return duration.split('.')[0];
+      }
+
+      return null;
+    } catch (error) {
+      console.warn(`⚠️  Could not get duration for ${filePath}`);
+      return null;
+    }
+  }
+}
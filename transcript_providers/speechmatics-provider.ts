@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { TranscriptionProvider, TranscriptionResult } from './base-provider';
+import { TranscriptionProvider, TranscriptionResult, TranscriptWord } from './base-provider';
+import { createStructuredTranscript, saveStructuredTranscript, segmentsFromWords } from './structured-transcript';
 
 export class SpeechmaticsProvider implements TranscriptionProvider {
   name = 'speechmatics';
@@ -76,9 +77,13 @@ export class SpeechmaticsProvider implements TranscriptionProvider {
       console.log('⏳ Waiting for transcription to complete...');
       let transcriptionResult: {
         results?: Array<{
+          type?: string;
+          start_time?: number;
+          end_time?: number;
           alternatives?: Array<{
             content?: string;
             speaker?: string;
+            confidence?: number;
           }>;
         }>;
       } | null = null;
@@ -126,9 +131,13 @@ export class SpeechmaticsProvider implements TranscriptionProvider {
 
           transcriptionResult = await resultResponse.json() as {
             results?: Array<{
+              type?: string;
+              start_time?: number;
+              end_time?: number;
               alternatives?: Array<{
                 content?: string;
                 speaker?: string;
+                confidence?: number;
               }>;
             }>;
           };
@@ -226,7 +235,31 @@ export class SpeechmaticsProvider implements TranscriptionProvider {
       // Get duration for return value
       const duration = await this.getAudioDuration(filePath);
       console.log(`⏱️  Audio duration: ${duration || 'N/A'}`);
-      return { duration: duration || 'N/A' };
+
+      const words: TranscriptWord[] = (transcriptionResult.results || [])
+        .filter(result => result.alternatives && result.alternatives.length > 0)
+        .map(result => {
+          const alternative = result.alternatives![0];
+          return {
+            text: alternative.content || '',
+            start: typeof result.start_time === 'number' ? result.start_time : null,
+            end: typeof result.end_time === 'number' ? result.end_time : null,
+            confidence: alternative.confidence,
+            speaker: alternative.speaker ?? null
+          };
+        });
+      const transcript = createStructuredTranscript({
+        provider: this.name,
+        model: config.transcription_config.operating_point,
+        sourceFile: filePath,
+        duration: duration || 'N/A',
+        language: config.transcription_config.language,
+        text: transcription,
+        segments: segmentsFromWords(words)
+      });
+      await saveStructuredTranscript(txtPath, transcript);
+
+      return { duration: duration || 'N/A', transcript };
 
     } catch (error: unknown) {
       console.error(`❌ Failed to transcribe ${filePath} with Speechmatics`);
@@ -251,17 +284,7 @@ export class SpeechmaticsProvider implements TranscriptionProvider {
         console.error(`   Unknown error: ${String(error)}`);
       }
 
-      // Try to create a basic error transcription file
-      try {
-        const errorMessage = `[Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}]`;
-        await fs.writeFile(txtPath, errorMessage, 'utf8');
-        console.log(`💾 Saved error message to: ${txtPath}`);
-      } catch (writeError) {
-        console.error('❌ Could not write error message to file');
-        console.error(`   Write error: ${writeError instanceof Error ? writeError.message : String(writeError)}`);
-      }
-
-      return { duration: 'N/A' };
+      throw error;
     }
   }
 
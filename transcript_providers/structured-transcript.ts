@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { StructuredTranscript, TranscriptSegment, TranscriptWord } from './base-provider';
+
+/**
+ * Path of the structured transcript that sits next to a `.txt` transcription.
+ * e.g. `call.txt` -> `call.transcript.json`
+ */
+export function getStructuredTranscriptPath(txtPath: string): string {
+  const dir = path.dirname(txtPath);
+  const base = path.basename(txtPath, path.extname(txtPath));
+  return path.join(dir, `${base}.transcript.json`);
+}
+
+export function createStructuredTranscript(
+  fields: Omit<StructuredTranscript, 'version' | 'createdAt' | 'sourceFile'> & { sourceFile: string }
+): StructuredTranscript {
+  return {
+    version: 1,
+    provider: fields.provider,
+    model: fields.model,
+    sourceFile: path.basename(fields.sourceFile),
+    createdAt: new Date().toISOString(),
+    duration: fields.duration,
+    language: fields.language,
+    summary: fields.summary,
+    text: fields.text,
+    segments: fields.segments
+  };
+}
+
+export async function saveStructuredTranscript(txtPath: string, transcript: StructuredTranscript): Promise<string> {
+  const jsonPath = getStructuredTranscriptPath(txtPath);
+  await fs.writeFile(jsonPath, JSON.stringify(transcript, null, 2), 'utf8');
+  console.log(`💾 Structured transcript saved to: ${jsonPath}`);
+  return jsonPath;
+}
+
+/**
+ * Group consecutive words spoken by the same speaker into segments.
+ * Words without a speaker label continue the current segment.
+ */
+export function segmentsFromWords(words: TranscriptWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | null = null;
+
+  for (const word of words) {
+    const speaker = word.speaker ?? null;
+    if (!current || (speaker !== null && current.speaker !== null && speaker !== current.speaker)) {
+      current = { start: word.start, end: word.end, speaker, text: '', words: [] };
+      segments.push(current);
+    }
+    if (current.speaker === null && speaker !== null) {
+      current.speaker = speaker;
+    }
+    current.words!.push(word);
+    current.end = word.end ?? current.end;
+    if (current.start === null) current.start = word.start;
+  }
+
+  for (const segment of segments) {
+    segment.text = joinWords(segment.words || []);
+  }
+  return segments;
+}
+
+/**
+ * Build untimed segments from "Speaker: text" lines, as produced by
+ * LLM-based transcription. Lines without a label keep the previous speaker.
+ */
+export function segmentsFromSpeakerLines(text: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let speaker: string | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const match = line.match(/^\**([A-Za-z][\w .-]{0,30}?)\**\s*:\s*(.+)$/);
+    if (match) {
+      speaker = match[1].trim();
+      segments.push({ start: null, end: null, speaker, text: match[2].trim() });
+    } else {
+      segments.push({ start: null, end: null, speaker, text: line });
+    }
+  }
+  return segments;
+}
+
+function joinWords(words: TranscriptWord[]): string {
+  let out = '';
+  for (const w of words) {
+    const token = w.text.trim();
+    if (!token) continue;
+    // Punctuation attaches to the previous word
+    if (out && !/^[.,!?;:%)\]}]/.test(token)) out += ' ';
+    out += token;
+  }
+  return out;
+}
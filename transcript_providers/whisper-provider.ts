@@ -1,8 +1,13 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import OpenAI from 'openai';
-import { TranscriptionProvider, TranscriptionResult } from './base-provider';
+import { Transcription, TranscriptionVerbose } from 'openai/resources/audio/transcriptions';
+import { TranscriptionProvider, TranscriptionResult, TranscriptSegment } from './base-provider';
 import { AudioConverter } from '../audio_utils/audio-converter';
+import { createStructuredTranscript, saveStructuredTranscript } from './structured-transcript';
+
+// Models that accept verbose_json and timestamp granularities; others (e.g. gpt-4o-transcribe) only return json
+const TIMED_MODELS = ['whisper-1'];
 
 export class WhisperProvider implements TranscriptionProvider {
   name = 'whisper';
@@ -55,11 +60,20 @@ export class WhisperProvider implements TranscriptionProvider {
       });
 
       console.log('🤖 Sending request to OpenAI Whisper API...');
-      // Generate transcription using Whisper
-      const transcription = await openai.audio.transcriptions.create({
-        file: file,
-        model: model as any,
-      });
+      // verbose_json keeps segment and word timings where the model supports it
+      const timed = TIMED_MODELS.includes(model);
+      const transcription: Transcription & Partial<TranscriptionVerbose> = timed
+        ? await openai.audio.transcriptions.create({
+          file: file,
+          model: model as any,
+          response_format: 'verbose_json',
+          timestamp_granularities: ['segment', 'word'],
+        })
+        : await openai.audio.transcriptions.create({
+          file: file,
+          model: model as any,
+          response_format: 'json',
+        });
       console.log('✅ Received response from OpenAI Whisper API');
 
       const transcriptionText = transcription.text;
@@ -72,10 +86,36 @@ export class WhisperProvider implements TranscriptionProvider {
 
       // Get duration for return value
       const duration = await this.getAudioDuration(filePath);
-      return { duration: duration || 'N/A' };
+
+      const segments: TranscriptSegment[] = (transcription.segments || []).map(seg => ({
+        start: seg.start,
+        end: seg.end,
+        speaker: null,
+        text: seg.text.trim(),
+        words: (transcription.words || [])
+          .filter(w => w.start >= seg.start && w.start < seg.end)
+          .map(w => ({ text: w.word, start: w.start, end: w.end }))
+      }));
+      // Without timings the whole text is one untimed segment
+      if (!timed && transcriptionText.trim()) {
+        console.log(`ℹ️  ${model} returns no timings; the structured transcript has text only`);
+        segments.push({ start: null, end: null, speaker: null, text: transcriptionText.trim() });
+      }
+      const transcript = createStructuredTranscript({
+        provider: this.name,
+        model,
+        sourceFile: filePath,
+        duration: duration || 'N/A',
+        language: transcription.language,
+        text: transcriptionText,
+        segments
+      });
+      await saveStructuredTranscript(txtPath, transcript);
+
+      return { duration: duration || 'N/A', transcript };
     } catch (error: unknown) {
       console.error(`❌ Failed to transcribe ${filePath}:`, error instanceof Error ? error.message : String(error));
-      return { duration: 'N/A' };
+      throw error;
     } finally {
       // Clean up temporary WAV file
       if (tempWavPath) {